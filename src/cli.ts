@@ -0,0 +1,101 @@
+#!/usr/bin/env node
+/**
+ * The `commonprops` command.
+ *
+ * Prints the common properties of exported types as a flat `interface`.
+ *
+ * ```text
+ * commonprops <file> <Type...> [--mode <mode>] [--name <Name>] [--out <file>]
+ * ```
+ *
+ * @example
+ * ```bash
+ * commonprops src/animals.ts Cat Dog Bird --mode upcast --name Animal --out src/animal.ts
+ * ```
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import { writeFileSync } from "node:fs";
+import { relative } from "node:path";
+import { parseArgs } from "node:util";
+import { generateDeclaration, MODE_TYPES, type GenerateMode } from "./generate.ts";
+
+const USAGE = `Usage: commonprops <file> <Type...> [options]
+
+Prints the common properties of the exported types as an interface.
+
+Options:
+  -m, --mode <mode>  ${Object.keys(MODE_TYPES).join(", ")} (default: strict)
+  -n, --name <Name>  Name of the generated interface (default: Common)
+  -o, --out <file>   Write to a file instead of stdout
+  -h, --help         Show this message
+`;
+
+/**
+ * Determines if a string names a supported mode.
+ *
+ * @param mode The string to check
+ * @returns `true` if the string is a mode, `false` otherwise
+ */
+function isMode(mode: string): mode is GenerateMode {
+    return Object.hasOwn(MODE_TYPES, mode);
+}
+
+/**
+ * Runs the command.
+ *
+ * @param args Command-line arguments, without the node and script paths
+ * @returns Process exit code: `0` on success, `1` if the types cannot be resolved, `2` for usage errors
+ */
+function main(args: string[]): number {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args,
+            allowPositionals: true,
+            options: {
+                mode: { type: "string", short: "m", default: "strict" },
+                name: { type: "string", short: "n", default: "Common" },
+                out: { type: "string", short: "o" },
+                help: { type: "boolean", short: "h", default: false },
+            },
+        });
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n\n${USAGE}`);
+        return 2;
+    }
+    const { values, positionals } = parsed;
+    if (values.help) {
+        process.stdout.write(USAGE);
+        return 0;
+    }
+    const [file, ...types] = positionals;
+    if (file === undefined || types.length === 0) {
+        process.stderr.write(USAGE);
+        return 2;
+    }
+    if (!isMode(values.mode)) {
+        process.stderr.write(`Unknown mode "${values.mode}"\n\n${USAGE}`);
+        return 2;
+    }
+
+    let declaration;
+    try {
+        declaration = generateDeclaration({ file, types, mode: values.mode, name: values.name, ...values.out === undefined ? {} : { out: values.out } });
+    } catch (error) {
+        process.stderr.write(`${(error as Error).message}\n`);
+        return 1;
+    }
+    const header = `// Generated by commonprops from ${relative(process.cwd(), file)}: ${types.join(", ")} (${values.mode} mode).`;
+    const output = `${header}\n${declaration}\n`;
+    if (values.out === undefined) {
+        process.stdout.write(output);
+    } else {
+        writeFileSync(values.out, output);
+    }
+    return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
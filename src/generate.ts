@@ -0,0 +1,343 @@
+/**
+ * Generates readable declarations for common-props results with the
+ * TypeScript compiler API.
+ *
+ * Hovering over a large result in an editor shows nested mapped types. This
+ * resolves the result for a set of exported types and prints it as a flat
+ * `interface` that can be written to a file and reviewed.
+ *
+ * This module needs the `typescript` package at runtime, so it is not
+ * exported from the main entry point. It backs the `commonprops` command.
+ *
+ * @example
+ * ```typescript
+ * generateDeclaration({ file: 'src/animals.ts', types: ['Cat', 'Dog'], mode: 'upcast', name: 'Animal' });
+ * // export interface Animal {
+ * //     name: string;
+ * //     type: string;
+ * // }
+ * ```
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import { existsSync } from "node:fs";
+import { dirname, isAbsolute, join, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import ts from "typescript";
+import type { PairMode } from "./index.ts";
+
+/**
+ * Names of the modes supported by {@link generateDeclaration}.
+ */
+export type GenerateMode = PairMode | "partial"
+
+/**
+ * The common-props type used for each mode.
+ */
+export const MODE_TYPES: Record<GenerateMode, string> = {
+    strict: "CommonStrictProps",
+    upcast: "CommonUpcastProps",
+    union: "CommonUnionProps",
+    loose: "CommonLooseProps",
+    partial: "CommonPartialProps",
+    deepStrict: "CommonDeepStrictProps",
+    deepUpcast: "CommonDeepUpcastProps",
+};
+
+/**
+ * Options for {@link generateDeclaration}.
+ */
+export interface GenerateOptions {
+    /** Path of the source file that exports the types. */
+    file: string;
+    /** Names of the exported types to compare. */
+    types: readonly string[];
+    /** The mode to compare the types with (default: `'strict'`). */
+    mode?: GenerateMode;
+    /** Name of the generated declaration (default: `'Common'`). */
+    name?: string;
+    /** Path the declaration will be written to, which imports are relative to (default: next to `file`). */
+    out?: string;
+}
+
+/**
+ * Name of the in-memory file that resolves the result.
+ */
+const ENTRY_NAME = "__commonprops__.ts";
+
+/**
+ * Gets the path of the type declarations of this package.
+ *
+ * @returns `index.d.ts` when running from a build, otherwise `index.ts`
+ */
+function libraryPath(): string {
+    // Joined rather than `new URL(..., import.meta.url)`, which the bundler would inline.
+    const here = dirname(fileURLToPath(import.meta.url));
+    const built = join(here, "index.d.ts");
+    return existsSync(built) ? built : join(here, "index.ts");
+}
+
+/**
+ * Reads the compiler options of the project the file belongs to.
+ *
+ * Falls back to strict ES module defaults if there is no `tsconfig.json`.
+ *
+ * @param file Absolute path of the source file
+ * @returns The compiler options
+ * @throws {Error} If the `tsconfig.json` cannot be parsed
+ */
+function compilerOptions(file: string): ts.CompilerOptions {
+    let options: ts.CompilerOptions = {
+        strict: true,
+        target: ts.ScriptTarget.ES2022,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+        skipLibCheck: true,
+    };
+    const configPath = ts.findConfigFile(dirname(file), (path) => ts.sys.fileExists(path));
+    if (configPath !== undefined) {
+        const config = ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+            ...ts.sys,
+            onUnRecoverableConfigFileDiagnostic: (diagnostic) => {
+                throw new Error(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+            },
+        });
+        if (config !== undefined) {
+            options = config.options;
+        }
+    }
+    return options;
+}
+
+/**
+ * Gets the module specifier to import a resolved source file with.
+ *
+ * The extension follows the project options: `.ts` files keep theirs when
+ * the project allows importing them, Node16 and NodeNext resolution use
+ * `.js`, and other resolution modes omit it.
+ *
+ * @param from Directory of the generated file
+ * @param target Absolute path of the file to import
+ * @param options The compiler options of the project
+ * @returns A relative module specifier
+ */
+function relativeSpecifier(from: string, target: string, options: ts.CompilerOptions): string {
+    let path = relative(from, target).replaceAll("\\", "/");
+    const declaration = /\.d\.([cm]?)ts$/.exec(path);
+    const source = /\.([cm]?)tsx?$/.exec(path);
+    const resolution = options.moduleResolution;
+    const node = resolution === ts.ModuleResolutionKind.Node16 || resolution === ts.ModuleResolutionKind.NodeNext;
+    if (declaration !== null) {
+        path = path.slice(0, declaration.index) + (node ? `.${declaration[1] ?? ""}js` : "");
+    } else if (source !== null && options.allowImportingTsExtensions !== true && options.rewriteRelativeImportExtensions !== true) {
+        path = path.slice(0, source.index) + (node ? `.${source[1] ?? ""}js` : "");
+    }
+    return path.startsWith(".") ? path : `./${path}`;
+}
+
+/**
+ * Replaces the `import("...")` types the printer falls back to with plain references.
+ *
+ * Named types used by the result, such as a nested interface, are not in
+ * scope of the generated file. The printer spells them as import types,
+ * which this turns back into names and collects, so they can be imported.
+ *
+ * @param node The type node to rewrite
+ * @param resolveFile Resolves an import type argument to the path of its file, or `undefined` for packages
+ * @returns The rewritten node, and the names to import from each file or package
+ */
+function extractImports<T extends ts.Node>(
+    node: T,
+    resolveFile: (specifier: string) => string | undefined,
+): { node: T; imports: Map<string, Set<string>> } {
+    const imports = new Map<string, Set<string>>();
+    const transformer: ts.TransformerFactory<T> = (context) => {
+        const visit = (child: ts.Node): ts.Node => {
+            if (ts.isImportTypeNode(child) && !child.isTypeOf && child.qualifier !== undefined
+                && ts.isLiteralTypeNode(child.argument) && ts.isStringLiteral(child.argument.literal)) {
+                const specifier = child.argument.literal.text;
+                let left: ts.EntityName = child.qualifier;
+                while (ts.isQualifiedName(left)) {
+                    left = left.left;
+                }
+                const from = resolveFile(specifier) ?? specifier;
+                imports.set(from, (imports.get(from) ?? new Set()).add(left.text));
+                const typeArguments = child.typeArguments?.map((type) => ts.visitNode(type, visit, ts.isTypeNode));
+                return ts.factory.createTypeReferenceNode(child.qualifier, typeArguments);
+            }
+            return ts.visitEachChild(child, visit, context);
+        };
+        return (root) => ts.visitEachChild(root, visit, context);
+    };
+    const result = ts.transform(node, [transformer]);
+    const [transformed = node] = result.transformed;
+    result.dispose();
+    return { node: transformed, imports };
+}
+
+/**
+ * Gets the names of type references in a type node.
+ *
+ * @param node The type node to search
+ * @returns The leftmost identifier of every type reference
+ */
+function referencedNames(node: ts.Node): Set<string> {
+    const names = new Set<string>();
+    const visit = (child: ts.Node): void => {
+        if (ts.isTypeReferenceNode(child)) {
+            let left = child.typeName;
+            while (ts.isQualifiedName(left)) {
+                left = left.left;
+            }
+            names.add(left.text);
+        }
+        ts.forEachChild(child, visit);
+    };
+    visit(node);
+    return names;
+}
+
+/**
+ * Removes `undefined` from the types of optional properties.
+ *
+ * Without `exactOptionalPropertyTypes` the printer spells out the implicit
+ * `| undefined` of every optional property, which adds nothing.
+ *
+ * @param node The type node to clean up
+ * @returns The type node without redundant `undefined`
+ */
+function omitOptionalUndefined<T extends ts.Node>(node: T): T {
+    const transformer: ts.TransformerFactory<T> = (context) => {
+        const visit = (child: ts.Node): ts.Node => {
+            if (ts.isPropertySignature(child) && child.questionToken !== undefined
+                && child.type !== undefined && ts.isUnionTypeNode(child.type)) {
+                const types = child.type.types.filter((type) => type.kind !== ts.SyntaxKind.UndefinedKeyword);
+                const [only] = types;
+                const type = types.length === 1 && only !== undefined ? only : ts.factory.createUnionTypeNode(types);
+                return ts.factory.updatePropertySignature(
+                    child, child.modifiers, child.name, child.questionToken, ts.visitNode(type, visit, ts.isTypeNode),
+                );
+            }
+            return ts.visitEachChild(child, visit, context);
+        };
+        return (root) => ts.visitEachChild(root, visit, context);
+    };
+    const result = ts.transform(node, [transformer]);
+    const [transformed = node] = result.transformed;
+    result.dispose();
+    return transformed;
+}
+
+/**
+ * Resolves a common-props type for exported types and prints it as a declaration.
+ *
+ * The result is resolved in an in-memory file next to the source file,
+ * using the compiler options of its `tsconfig.json`. Object results become
+ * an exported `interface` with nested objects printed inline; anything else
+ * becomes an exported `type` alias. Named types the result refers to are
+ * imported with `import type`, relative to `out`.
+ *
+ * @param options The file, types, mode and declaration name
+ * @returns TypeScript source for the declaration
+ * @throws {Error} If the types cannot be resolved, with the compiler diagnostics as the message
+ * @throws {Error} If the result refers to a type that is not exported, or two types with the same name
+ *
+ * @example
+ * ```typescript
+ * generateDeclaration({ file: 'src/animals.ts', types: ['Cat', 'Dog', 'Bird'], mode: 'upcast', name: 'Animal' });
+ * ```
+ */
+export function generateDeclaration(options: GenerateOptions): string {
+    const { types, mode = "strict", name = "Common" } = options;
+    const file = resolve(options.file);
+    const outDir = dirname(options.out === undefined ? file : resolve(options.out));
+    const entry = join(dirname(file), ENTRY_NAME);
+    // Import types keep the compared types out of scope, so references to them are imported too.
+    const inputs = types.map((type) => `import(${JSON.stringify(file)}).${type}`);
+    const source = `export type __Result = import(${JSON.stringify(libraryPath())}).${MODE_TYPES[mode]}<[${inputs.join(", ")}]>;`;
+
+    const projectOpts = compilerOptions(file);
+    const compilerOpts = { ...projectOpts, noEmit: true, allowImportingTsExtensions: true };
+    const host = ts.createCompilerHost(compilerOpts);
+    const { fileExists, getSourceFile } = host;
+    host.fileExists = (path): boolean => path === entry || fileExists.call(host, path);
+    host.getSourceFile = (path, language, ...rest): ts.SourceFile | undefined => path === entry
+        ? ts.createSourceFile(path, source, language)
+        : getSourceFile.call(host, path, language, ...rest);
+    const program = ts.createProgram([entry], compilerOpts, host);
+    const entryFile = program.getSourceFile(entry);
+    if (entryFile === undefined) {
+        throw new Error(`Unable to load ${file}`);
+    }
+    const diagnostics = [...program.getSyntacticDiagnostics(entryFile), ...program.getSemanticDiagnostics(entryFile)];
+    if (diagnostics.length > 0) {
+        throw new Error(ts.formatDiagnostics(diagnostics, {
+            getCanonicalFileName: (path) => path,
+            getCurrentDirectory: () => process.cwd(),
+            getNewLine: () => "\n",
+        }).trimEnd());
+    }
+
+    const checker = program.getTypeChecker();
+    const alias = entryFile.statements.find(ts.isTypeAliasDeclaration);
+    if (alias === undefined) {
+        throw new Error("Unable to find the resolved type");
+    }
+    const flags = ts.NodeBuilderFlags.NoTruncation | ts.NodeBuilderFlags.InTypeAlias
+        | ts.NodeBuilderFlags.MultilineObjectLiterals | ts.NodeBuilderFlags.IgnoreErrors;
+    const printed = checker.typeToTypeNode(checker.getTypeAtLocation(alias.name), entryFile, flags);
+    if (printed === undefined) {
+        throw new Error("Unable to print the resolved type");
+    }
+    const resolveFile = (specifier: string): string | undefined => {
+        if (!isAbsolute(specifier) && !specifier.startsWith(".")) {
+            return undefined;
+        }
+        const resolved = ts.resolveModuleName(specifier, entry, compilerOpts, host).resolvedModule;
+        return resolved === undefined ? undefined : relativeSpecifier(outDir, resolved.resolvedFileName, projectOpts);
+    };
+    const extracted = extractImports(printed, resolveFile);
+    const { imports } = extracted;
+    let { node } = extracted;
+    if (compilerOpts.exactOptionalPropertyTypes !== true) {
+        node = omitOptionalUndefined(node);
+    }
+
+    const sources = new Map<string, string>();
+    for (const [from, names] of imports) {
+        for (const imported of names) {
+            const other = sources.get(imported);
+            if (imported === name || (other !== undefined && other !== from)) {
+                throw new Error(`The result refers to more than one type named ${imported}`);
+            }
+            sources.set(imported, from);
+        }
+    }
+    const globals = new Set(checker.getSymbolsInScope(entryFile, ts.SymbolFlags.Type).map((symbol) => symbol.name));
+    globals.delete(alias.name.text);
+    for (const referenced of referencedNames(node)) {
+        if (!sources.has(referenced) && !globals.has(referenced)) {
+            throw new Error(`The result refers to ${referenced}, which is not exported`);
+        }
+    }
+
+    const printer = ts.createPrinter();
+    const lines = [...imports].map(([from, names]) => printer.printNode(ts.EmitHint.Unspecified, ts.factory.createImportDeclaration(
+        undefined,
+        ts.factory.createImportClause(true, undefined, ts.factory.createNamedImports(
+            [...names].map((imported) => ts.factory.createImportSpecifier(false, undefined, ts.factory.createIdentifier(imported))),
+        )),
+        ts.factory.createStringLiteral(from),
+    ), entryFile));
+    if (lines.length > 0) {
+        lines.push("");
+    }
+    const exported = [ts.factory.createModifier(ts.SyntaxKind.ExportKeyword)];
+    const declaration = ts.isTypeLiteralNode(node)
+        ? ts.factory.createInterfaceDeclaration(exported, name, undefined, undefined, node.members)
+        : ts.factory.createTypeAliasDeclaration(exported, name, undefined, node);
+    lines.push(printer.printNode(ts.EmitHint.Unspecified, declaration, entryFile));
+    return lines.join("\n");
+}
@@ -0,0 +1,553 @@
+/**
+ * Runtime type guards for common properties.
+ *
+ * A guard is built from a descriptor that names the `typeof` of each
+ * property, or from JSON samples with {@link sampleGuard}. {@link commonGuard}
+ * checks a descriptor against a type-level result, such as
+ * `CommonUpcastProps<[Cat, Dog]>`, so the guard and the type cannot drift,
+ * and narrows to that result.
+ *
+ * @example
+ * ```typescript
+ * const isAnimal = commonGuard<CommonUpcastProps<[Cat, Dog]>>()({ name: 'string', type: 'string' });
+ *
+ * if (isAnimal(value)) {
+ *     value.name; // string
+ * }
+ * assertCommon(isAnimal, { name: 'Tom' });
+ * // CommonShapeError: Missing keys: type
+ * ```
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import type { IsIdentical, IsPlainObject, OptionalKeys } from "./index.ts";
+import type { Simplify, UnionToTuple } from "./internal.ts";
+import type { PickedProps, PickMode } from "./pickcommon.ts";
+import { inferCommonShape, type Shape } from "./shape.ts";
+
+/**
+ * The type each name of a descriptor checks for.
+ *
+ * `'array'` matches arrays and `'object'` matches any other non-`null` object.
+ */
+export interface TypeNames {
+    /** `typeof value === 'string'`. */
+    string: string;
+    /** `typeof value === 'number'`. */
+    number: number;
+    /** `typeof value === 'bigint'`. */
+    bigint: bigint;
+    /** `typeof value === 'boolean'`. */
+    boolean: boolean;
+    /** `typeof value === 'symbol'`. */
+    symbol: symbol;
+    /** `typeof value === 'function'`. */
+    function: (...args: never[]) => unknown;
+    /** A non-`null` object that is not an array. */
+    object: object;
+    /** `undefined`, or a missing key. */
+    undefined: undefined;
+    /** `null`. */
+    null: null;
+    /** `Array.isArray(value)`. */
+    array: unknown[];
+}
+
+/**
+ * Name of a type a descriptor can check for.
+ */
+export type TypeName = keyof TypeNames
+
+/**
+ * Describes one property: a type name, a list of allowed type names, or a
+ * nested descriptor for an object.
+ */
+export type PropDescriptor = TypeName | readonly TypeName[] | ShapeDescriptor
+
+/**
+ * Describes an object by the types of its properties.
+ *
+ * A property whose type names include `'undefined'` may be missing.
+ */
+export interface ShapeDescriptor {
+    readonly [key: string]: PropDescriptor;
+}
+
+/**
+ * The problems found when checking a value against a guard.
+ */
+export interface CommonIssues {
+    /** Paths of required keys that are missing, such as `'owner.id'`. */
+    missing: string[];
+    /** Properties that have the wrong type. */
+    mismatched: TypeMismatch[];
+}
+
+/**
+ * A property that has the wrong type.
+ */
+export interface TypeMismatch {
+    /** Path of the property, such as `'tags[0]'`, or `''` for the value itself. */
+    path: string;
+    /** The type that was expected, such as `'string | null'`. */
+    expected: string;
+    /** The type name of the value that was found. */
+    actual: TypeName;
+}
+
+/**
+ * A type guard that can also list why a value does not match.
+ *
+ * @template T The type the guard narrows to
+ */
+export interface CommonGuard<T> {
+    /**
+     * Determines if a value matches.
+     *
+     * @param value The value to check
+     * @returns `true` if the value matches, `false` otherwise
+     */
+    (value: unknown): value is T;
+    /**
+     * Lists the problems that keep a value from matching.
+     *
+     * @param value The value to check
+     * @returns The missing keys and wrong types, both empty if the value matches
+     */
+    issues(value: unknown): CommonIssues;
+}
+
+/**
+ * Thrown by {@link assertCommon} when a value does not match.
+ */
+export class CommonShapeError extends TypeError {
+    /** Paths of required keys that are missing. */
+    readonly missing: string[];
+    /** Properties that have the wrong type. */
+    readonly mismatched: TypeMismatch[];
+
+    /**
+     * @param issues The problems found
+     */
+    constructor(issues: CommonIssues) {
+        const parts: string[] = [];
+        if (issues.missing.length > 0) {
+            parts.push(`Missing keys: ${issues.missing.join(", ")}`);
+        }
+        if (issues.mismatched.length > 0) {
+            parts.push(`Wrong types: ${issues.mismatched.map(
+                ({ path, expected, actual }) => `${path === "" ? "value" : path} (expected ${expected}, got ${actual})`,
+            ).join(", ")}`);
+        }
+        super(parts.join("; "));
+        this.name = "CommonShapeError";
+        this.missing = issues.missing;
+        this.mismatched = issues.mismatched;
+    }
+}
+
+/**
+ * Gets the type names a property descriptor allows.
+ *
+ * @template P The property descriptor
+ * @returns Union of {@link TypeName}, `'object'` for a nested descriptor
+ */
+export type DescribedNames<P> =
+    P extends TypeName ? P :
+    P extends readonly (infer N extends TypeName)[] ? N :
+    "object"
+
+/**
+ * The type a descriptor checks for.
+ *
+ * Properties whose type names include `'undefined'` are optional.
+ *
+ * @template D The shape descriptor
+ *
+ * @example
+ * ```typescript
+ * type A = Described<{ name: 'string'; owner: ['object', 'undefined'] }>; // { name: string; owner?: object | undefined }
+ * ```
+ */
+export type Described<D> = Simplify<{
+    -readonly [K in keyof D as "undefined" extends DescribedNames<D[K]> ? never : K]: DescribedValue<D[K]>
+} & {
+    -readonly [K in keyof D as "undefined" extends DescribedNames<D[K]> ? K : never]?: DescribedValue<D[K]>
+}>
+
+/**
+ * The type a property descriptor checks for.
+ *
+ * @template P The property descriptor
+ */
+export type DescribedValue<P> =
+    P extends TypeName | readonly TypeName[] ? TypeNames[DescribedNames<P>] : Described<P>
+
+/**
+ * Gets the type names a runtime check would report for a type.
+ *
+ * Literal types are named by their `typeof`, so `'cat'` is `'string'`.
+ *
+ * @template T The type to name
+ * @returns Union of {@link TypeName}, every name for `unknown`
+ *
+ * @example
+ * ```typescript
+ * type A = TypeNameOf<string | null>; // 'string' | 'null'
+ * ```
+ */
+export type TypeNameOf<T> =
+    unknown extends T ? TypeName :
+    T extends null ? "null" :
+    T extends undefined ? "undefined" :
+    T extends string ? "string" :
+    T extends number ? "number" :
+    T extends bigint ? "bigint" :
+    T extends boolean ? "boolean" :
+    T extends symbol ? "symbol" :
+    T extends readonly unknown[] ? "array" :
+    T extends (...args: never[]) => unknown ? "function" :
+    "object"
+
+/**
+ * Gets the type names expected for a property, with `'undefined'` for optional keys.
+ *
+ * @template T The object type
+ * @template K The property key
+ */
+export type ExpectedNames<T, K extends keyof T> =
+    TypeNameOf<T[K] | (K extends OptionalKeys<T> ? undefined : never)>
+
+/**
+ * The descriptors allowed for an object type, used for completions and to infer the descriptor.
+ *
+ * Every key must be described. Plain object properties may use a nested descriptor.
+ *
+ * @template T The object type
+ */
+export type CommonDescriptor<T> = {
+    readonly [K in keyof T]-?:
+    | ExpectedNames<T, K>
+    | readonly ExpectedNames<T, K>[]
+    | (IsPlainObject<T[K]> extends true ? CommonDescriptor<T[K]> : never)
+}
+
+/**
+ * Checks that a descriptor names exactly the type names of each property of a type.
+ *
+ * Properties that match keep their descriptor. Others become the expected
+ * descriptor, so the compiler reports it, and keys the type does not have
+ * become `never`.
+ *
+ * @template T The object type
+ * @template D The descriptor to check
+ */
+export type CheckedDescriptor<T, D> = {
+    [K in keyof D]: K extends keyof T
+    ? D[K] extends TypeName | readonly TypeName[]
+    ? IsIdentical<DescribedNames<D[K]>, ExpectedNames<T, K>> extends true ? D[K] : ExpectedDescriptor<ExpectedNames<T, K>>
+    : IsPlainObject<T[K]> extends true ? CheckedDescriptor<T[K], D[K]> : ExpectedDescriptor<ExpectedNames<T, K>>
+    : never
+}
+
+/**
+ * The descriptor reported for a property with the wrong type names.
+ *
+ * @template N The expected type names
+ */
+export type ExpectedDescriptor<N extends TypeName> =
+    UnionToTuple<N> extends [infer Only] ? Only : Readonly<UnionToTuple<N>>
+
+/**
+ * Gets the type name of a value.
+ *
+ * @param value The value to name
+ * @returns `'null'` and `'array'` for those values, otherwise its `typeof`
+ */
+function typeNameOf(value: unknown): TypeName {
+    if (value === null) {
+        return "null";
+    }
+    return Array.isArray(value) ? "array" : typeof value;
+}
+
+/**
+ * Appends a key to a path.
+ *
+ * @param path The path of the parent
+ * @param key The key to append
+ * @returns The path of the property
+ */
+function pathTo(path: string, key: string | number): string {
+    if (typeof key === "number") {
+        return `${path}[${key}]`;
+    }
+    return path === "" ? key : `${path}.${key}`;
+}
+
+/**
+ * Checks the properties of a value, recording missing keys.
+ *
+ * @param value The value to check
+ * @param path Path of the value
+ * @param keys The keys to check and whether each may be missing
+ * @param check Checks a property that is present
+ * @param issues The issues to record into
+ */
+function checkProperties(
+    value: unknown,
+    path: string,
+    keys: [key: string, optional: boolean][],
+    check: (key: string, property: unknown, path: string) => void,
+    issues: CommonIssues,
+): void {
+    if (typeNameOf(value) !== "object") {
+        issues.mismatched.push({ path, expected: "object", actual: typeNameOf(value) });
+        return;
+    }
+    const record = value as Record<string, unknown>;
+    for (const [key, optional] of keys) {
+        if (Object.hasOwn(record, key)) {
+            check(key, record[key], pathTo(path, key));
+        } else if (!optional) {
+            issues.missing.push(pathTo(path, key));
+        }
+    }
+}
+
+/**
+ * Checks a value against a property descriptor.
+ *
+ * @param descriptor The property descriptor
+ * @param value The value to check
+ * @param path Path of the value
+ * @param issues The issues to record into
+ */
+function checkDescriptor(descriptor: PropDescriptor, value: unknown, path: string, issues: CommonIssues): void {
+    if (typeof descriptor === "string" || Array.isArray(descriptor)) {
+        const names: readonly TypeName[] = typeof descriptor === "string" ? [descriptor] : descriptor;
+        if (!names.includes(typeNameOf(value))) {
+            issues.mismatched.push({ path, expected: names.join(" | "), actual: typeNameOf(value) });
+        }
+        return;
+    }
+    const nested = descriptor as ShapeDescriptor;
+    checkProperties(
+        value,
+        path,
+        Object.entries(nested).map(([key, property]) => [key, describedNames(property).includes("undefined")]),
+        (key, property, propertyPath) => checkDescriptor(nested[key] as PropDescriptor, property, propertyPath, issues),
+        issues,
+    );
+}
+
+/**
+ * Gets the type names a property descriptor allows.
+ *
+ * @param descriptor The property descriptor
+ * @returns The names, `['object']` for a nested descriptor
+ */
+function describedNames(descriptor: PropDescriptor): readonly TypeName[] {
+    if (typeof descriptor === "string") {
+        return [descriptor];
+    }
+    return Array.isArray(descriptor) ? descriptor : ["object"];
+}
+
+/**
+ * Describes a shape for an issue.
+ *
+ * @param shape The shape to describe
+ * @returns TypeScript-like source, with objects shown as `object`
+ */
+function describeShape(shape: Shape): string {
+    switch (shape.kind) {
+        case "literal":
+            return JSON.stringify(shape.value);
+        case "primitive":
+            return shape.type;
+        case "array": {
+            const element = describeShape(shape.element);
+            return shape.element.kind === "union" ? `(${element})[]` : `${element}[]`;
+        }
+        case "tuple":
+            return `[${shape.elements.map(describeShape).join(", ")}]`;
+        case "object":
+            return "object";
+        case "union":
+            return shape.members.length === 0 ? "never" : shape.members.map(describeShape).join(" | ");
+    }
+}
+
+/**
+ * Checks a value against a shape.
+ *
+ * @param shape The shape
+ * @param value The value to check
+ * @param path Path of the value
+ * @param issues The issues to record into
+ */
+function checkShape(shape: Shape, value: unknown, path: string, issues: CommonIssues): void {
+    const mismatch = (): void => {
+        issues.mismatched.push({ path, expected: describeShape(shape), actual: typeNameOf(value) });
+    };
+    switch (shape.kind) {
+        case "literal":
+            if (!Object.is(shape.value, value)) {
+                mismatch();
+            }
+            return;
+        case "primitive":
+            if (typeof value !== shape.type) {
+                mismatch();
+            }
+            return;
+        case "array":
+            if (!Array.isArray(value)) {
+                mismatch();
+                return;
+            }
+            value.forEach((element, index) => checkShape(shape.element, element, pathTo(path, index), issues));
+            return;
+        case "tuple":
+            if (!Array.isArray(value) || value.length !== shape.elements.length) {
+                mismatch();
+                return;
+            }
+            shape.elements.forEach((element, index) => checkShape(element, value[index], pathTo(path, index), issues));
+            return;
+        case "object":
+            checkProperties(
+                value,
+                path,
+                Object.keys(shape.properties).map((key) => [key, false]),
+                (key, property, propertyPath) => checkShape(shape.properties[key] as Shape, property, propertyPath, issues),
+                issues,
+            );
+            return;
+        case "union":
+            if (!shape.members.some((member) => {
+                const memberIssues: CommonIssues = { missing: [], mismatched: [] };
+                checkShape(member, value, path, memberIssues);
+                return memberIssues.missing.length === 0 && memberIssues.mismatched.length === 0;
+            })) {
+                mismatch();
+            }
+            return;
+    }
+}
+
+/**
+ * Creates a guard from a function that records issues.
+ *
+ * @template T The type the guard narrows to
+ * @param check Records the issues of a value
+ * @returns The guard
+ */
+function createGuard<T>(check: (value: unknown, issues: CommonIssues) => void): CommonGuard<T> {
+    const issues = (value: unknown): CommonIssues => {
+        const found: CommonIssues = { missing: [], mismatched: [] };
+        check(value, found);
+        return found;
+    };
+    const guard = (value: unknown): value is T => {
+        const found = issues(value);
+        return found.missing.length === 0 && found.mismatched.length === 0;
+    };
+    return Object.assign(guard, { issues });
+}
+
+/**
+ * Creates a guard from a descriptor.
+ *
+ * Each property is checked by its type names. Nested descriptors are checked
+ * recursively, and extra keys are allowed.
+ *
+ * @template D The descriptor, inferred as `const`
+ * @param descriptor The types of the properties
+ * @returns A guard for {@link Described} of the descriptor
+ *
+ * @example
+ * ```typescript
+ * const isAnimal = shapeGuard({ name: 'string', owner: ['object', 'null'] });
+ * isAnimal({ name: 'Tom', owner: null }); // true
+ * ```
+ */
+export function shapeGuard<const D extends ShapeDescriptor>(descriptor: D): CommonGuard<Described<D>> {
+    return createGuard((value, issues) => checkDescriptor(descriptor, value, "", issues));
+}
+
+/**
+ * Creates a guard for a type-level result, checking the descriptor against it.
+ *
+ * The descriptor must name exactly the {@link TypeNameOf} each property of
+ * `T`, with `'undefined'` for optional keys, so a change to the types that
+ * the descriptor does not follow is a compile error. The guard narrows to
+ * `T`. Names only check the `typeof`, so literal types and the contents of
+ * arrays and objects that are not described are trusted: a guard for
+ * `{ legs: 4; tags: string[] }` accepts any number and any array.
+ *
+ * @template T The type to guard, such as `CommonUpcastProps<[Cat, Dog]>`
+ * @returns A function that takes the descriptor and returns a guard for `T`
+ *
+ * @example
+ * ```typescript
+ * const isAnimal = commonGuard<CommonUpcastProps<[Cat, Dog]>>()({ name: 'string', type: 'string' });
+ * ```
+ */
+export function commonGuard<T extends object>(): <const D extends CommonDescriptor<T>>(
+    descriptor: D & CheckedDescriptor<T, D>,
+) => CommonGuard<T> {
+    return (descriptor) => createGuard((value, issues) => checkDescriptor(descriptor, value, "", issues));
+}
+
+/**
+ * Creates a guard from JSON samples.
+ *
+ * The shape is inferred with {@link index!inferCommonShape}, so literal values
+ * kept by the mode are checked exactly. The guard narrows to the same type
+ * {@link index!pickCommon} gives the samples.
+ *
+ * @template T Tuple of the sample types, inferred as `const`
+ * @template Mode The mode to combine the samples with
+ * @param samples The samples to infer the shape from
+ * @param mode The mode to combine the samples with (default: `'strict'`)
+ * @returns A guard for the common properties of the samples
+ * @throws {TypeError} If a sample is not a plain object of JSON values
+ *
+ * @example
+ * ```typescript
+ * const isAnimal = sampleGuard([{ type: 'cat', legs: 4 }, { type: 'dog', legs: 4 }], 'upcast');
+ * isAnimal({ type: 'bird', legs: 4 }); // true
+ * isAnimal({ type: 'bird', legs: 2 }); // false
+ * ```
+ */
+export function sampleGuard<const T extends readonly object[], Mode extends PickMode = "strict">(
+    samples: T,
+    mode?: Mode,
+): CommonGuard<PickedProps<T, Mode>> {
+    const shape = inferCommonShape(samples, mode);
+    return createGuard((value, issues) => checkShape(shape, value, "", issues));
+}
+
+/**
+ * Asserts that a value matches a guard.
+ *
+ * @template T The type the guard narrows to
+ * @param guard The guard to check with
+ * @param value The value to check
+ * @throws {CommonShapeError} If the value does not match, listing the missing keys and wrong types
+ *
+ * @example
+ * ```typescript
+ * assertCommon(isAnimal, JSON.parse(text));
+ * ```
+ */
+export function assertCommon<T>(guard: CommonGuard<T>, value: unknown): asserts value is T {
+    const issues = guard.issues(value);
+    if (issues.missing.length > 0 || issues.mismatched.length > 0) {
+        throw new CommonShapeError(issues);
+    }
+}
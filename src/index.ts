@@ -1,9 +1,18 @@
 /**
  * TypeScript utility types for extracting common properties from multiple types.
  * 
- * This module provides two main approaches to finding common properties:
+ * This module provides four main approaches to finding common properties:
  * - **Strict mode**: Properties must have exactly matching types
  * - **Upcast mode**: Primitive literals can be upcast to their base types (e.g., 'hello' → string)
+ * - **Union mode**: Shared properties are typed as the union of their values (e.g., 'cat' | 'dog')
+ * - **Loose mode**: Mismatched primitives are merged into a union of their bases (e.g., string | number)
+ * 
+ * The strict and upcast modes also have deep variants (`CommonDeepStrictProps`, `CommonDeepUpcastProps`)
+ * that recurse into nested objects instead of excluding them, and `CommonPartialProps`
+ * keeps keys present in only some of the types as optional properties. `pickCommon`
+ * and `commonKeys` apply the strict and upcast modes to objects at runtime, and
+ * `inferCommonShape` infers a printable shape from JSON samples. `commonGuard`
+ * builds runtime type guards checked against a common-props result.
  * 
  * @example
  * ```typescript
@@ -15,19 +24,133 @@
  * 
  * // Upcast: literals become primitives  
  * type UpcastCommon = CommonUpcastProps<[Cat, Dog]>; // { name: string; type: string; active: boolean }
+ * 
+ * // Union: literals are preserved
+ * type UnionCommon = CommonUnionProps<[Cat, Dog]>; // { name: string; type: 'cat' | 'dog'; active: boolean }
  * ```
  * 
  * @author Adam Mill <hismajesty@theroyalwhee.com>
  * @license Apache-2.0
  */
 
+import type {
+    CallableSignatures, DeepStrictObjectUnify, DeepUpcastObjectUnify, EmptyOption, EnumUnify, FunctionSignatures,
+    IntersectAll, IsFunction, Join, LostKeyMessages, NullableOptions, OptionOr, OptionsMode, PairAdjacent,
+    SignaturePairs, Simplify, UnifyAdjacent, UnionToTuple,
+} from "./internal.ts";
+
+export { assertCommon, commonGuard, CommonShapeError, sampleGuard, shapeGuard } from "./guard.ts";
+export type {
+    CheckedDescriptor, CommonDescriptor, CommonGuard, CommonIssues, Described, DescribedNames, DescribedValue,
+    ExpectedDescriptor, ExpectedNames, PropDescriptor, ShapeDescriptor, TypeMismatch, TypeName, TypeNameOf, TypeNames,
+} from "./guard.ts";
+export { commonKeys, isPlainObject, pickCommon, strictMatch, upcastMatch } from "./pickcommon.ts";
+export type { PickCommonOptions, PickedProps, PickMode } from "./pickcommon.ts";
+export { inferCommonShape, renderDeclaration } from "./shape.ts";
+export type { ArrayShape, LiteralShape, ObjectShape, PrimitiveShape, Shape, TupleShape, UnionShape } from "./shape.ts";
+
+/**
+ * A single "from → to" widening rule for the {@link UpcastRegistry}.
+ * 
+ * @template From The types that may be widened (usually a union)
+ * @template To The type they widen to
+ */
+export type UpcastRule<From, To> = {
+    /** The types that may be widened. */
+    from: From
+    /** The type they widen to. */
+    to: To
+}
+
+/**
+ * Registry of user-defined upcast rules, extended through declaration merging.
+ * 
+ * Each property is an {@link UpcastRule}. {@link IsUpcastable},
+ * {@link GetUpcastable} and therefore {@link CommonUpcastPairs} consult these
+ * rules before falling back to the built-in primitive ladder. A type matches a
+ * rule if it is assignable to the rule's `from` type. The property names are
+ * only labels. Keep rules disjoint: if several rules match, the result is the
+ * union of their targets.
+ * 
+ * @example
+ * ```typescript
+ * type Length = number & { __unit: 'length' };
+ * type Meters = Length & { __brand: 'meters' };
+ * type Feet = Length & { __brand: 'feet' };
+ * 
+ * declare module '@theroyalwhee0/commonprops' {
+ *     interface UpcastRegistry {
+ *         length: UpcastRule<Meters | Feet, Length>;
+ *     }
+ * }
+ * 
+ * type Result = CommonUpcastPairs<{ size: Meters }, { size: Feet }>; // { size: Length }
+ * ```
+ */
+export interface UpcastRegistry { }
+
+/**
+ * Gets the target of the {@link UpcastRegistry} rules that match a type.
+ * 
+ * The whole type is matched against each rule, without distributing over
+ * unions.
+ * 
+ * @template T The type to look up
+ * @returns The union of the matching rules' targets, or `never` if no rule matches
+ * 
+ * @example
+ * ```typescript
+ * // With `length: UpcastRule<Meters | Feet, Length>` registered:
+ * type A = RegisteredUpcast<Meters>; // Length
+ * type B = RegisteredUpcast<string>; // never
+ * ```
+ */
+export type RegisteredUpcast<T> = MatchUpcastRule<T, UpcastRegistry[keyof UpcastRegistry]>
+
+/**
+ * Gets the target of the given upcast rules that match a type.
+ * 
+ * Distributes over a union of rules; the type itself is matched as a whole.
+ * 
+ * @template T The type to match
+ * @template Rule One or more {@link UpcastRule} types
+ * @returns The union of the matching rules' targets, or `never` if no rule matches
+ * 
+ * @example
+ * ```typescript
+ * type A = MatchUpcastRule<'a', UpcastRule<'a' | 'b', 'letter'>>; // 'letter'
+ * type B = MatchUpcastRule<'c', UpcastRule<'a' | 'b', 'letter'>>; // never
+ * ```
+ */
+export type MatchUpcastRule<T, Rule> =
+    Rule extends UpcastRule<infer From, infer To>
+    ? [T] extends [From] ? To : never
+    : never
+
 /**
  * Determines if a type can be upcast to its primitive base type.
  * 
- * Returns `true` for literal types (e.g., `'hello'`, `42`, `true`) that can be 
- * upcast to their primitive base (`string`, `number`, `boolean`).
+ * Returns `true` for literal types that can be upcast to their primitive base:
+ * - String literals and template literal patterns (e.g., `'hello'`, `` `user-${string}` ``) → `string`
+ * - Numeric literals (e.g., `42`) → `number`
+ * - Bigint literals (e.g., `1n`) → `bigint`
+ * - Boolean literals (`true`, `false`) → `boolean`
+ * - Unique symbols (e.g., `typeof sym`) → `symbol`
+ * - String and numeric enum members (e.g., `Color.Red`) → `string` or `number`
+ * 
  * Returns `false` for primitive base types and non-primitive types.
  * 
+ * `null` and `undefined` members are ignored, so a nullable literal such as
+ * `'hello' | null` is upcastable, but `null` or `undefined` alone is not.
+ * 
+ * Types matching a rule in the {@link UpcastRegistry} are always upcastable;
+ * the registry is consulted before the built-in ladder.
+ * 
+ * An enum member on its own widens to its primitive, as TypeScript does not
+ * expose which enum it belongs to. Upcast mode unifies two enum members into
+ * their union before widening them, and an enum registered in the
+ * {@link UpcastRegistry} widens to its registered target.
+ * 
  * Uses non-distributive conditionals to handle union types correctly.
  * 
  * @template T The type to check
@@ -40,23 +163,54 @@
  * type C = IsUpcastable<42>;        // true
  * type D = IsUpcastable<number>;    // false
  * type E = IsUpcastable<boolean>;   // false
+ * type F = IsUpcastable<1n>;        // true
+ * type G = IsUpcastable<`id-${string}`>; // true
+ * type H = IsUpcastable<'hello' | null>; // true
+ * type I = IsUpcastable<null>;     // false
  * ```
  */
 export type IsUpcastable<T> =
-    [T] extends [string] ? (string extends T ? false : true) :
-    [T] extends [number] ? (number extends T ? false : true) :
-    [T] extends [boolean] ? (
-        true extends T ? (
-            false extends T ? false : true
-        ) : true
-    ) :
-    false
+    [Exclude<T, null | undefined>] extends [never] ? false :
+    [RegisteredUpcast<Exclude<T, null | undefined>>] extends [never] ? IsPrimitiveUpcastable<T> : true
+
+/**
+ * Determines if a type can be upcast using the built-in primitive ladder only.
+ * 
+ * This is {@link IsUpcastable} without the {@link UpcastRegistry} rules.
+ * 
+ * @template T The type to check
+ * @returns `true` if the type is a primitive literal, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = IsPrimitiveUpcastable<'hello'>;        // true
+ * type B = IsPrimitiveUpcastable<string>;         // false
+ * type C = IsPrimitiveUpcastable<'hello' | null>; // true
+ * ```
+ */
+export type IsPrimitiveUpcastable<T> =
+    [T] extends [null | undefined] ? false :
+    Exclude<T, null | undefined> extends infer V ? (
+        [V] extends [string] ? (string extends V ? false : true) :
+        // `number` is assignable to numeric enum members, so compare for identity.
+        [V] extends [number] ? (IsIdentical<V, number> extends true ? false : true) :
+        [V] extends [bigint] ? (bigint extends V ? false : true) :
+        [V] extends [boolean] ? (
+            true extends V ? (
+                false extends V ? false : true
+            ) : true
+        ) :
+        [V] extends [symbol] ? (symbol extends V ? false : true) :
+        false
+    ) : never
 
 /**
  * Gets the primitive base type for a given type.
  * 
- * Returns the primitive type that a literal can be upcast to.
- * Returns `never` for non-primitive types.
+ * Returns the primitive type that a literal can be upcast to, or the target
+ * of a matching {@link UpcastRegistry} rule, which takes precedence.
+ * Returns `never` for non-primitive types. `null` and `undefined` members of
+ * a union are kept, so a nullable literal widens to a nullable primitive.
  * 
  * @template T The type to get the primitive for
  * @returns The primitive base type or `never`
@@ -67,164 +221,2083 @@ export type IsUpcastable<T> =
  * type B = GetUpcastable<42>;       // number
  * type C = GetUpcastable<true>;     // boolean
  * type D = GetUpcastable<object>;   // never
+ * type E = GetUpcastable<1n>;       // bigint
+ * type F = GetUpcastable<`id-${string}`>; // string
+ * type G = GetUpcastable<'hello' | null>; // string | null
  * ```
  */
 export type GetUpcastable<T> =
+    [Exclude<T, null | undefined>] extends [never] ? never :
+    T extends null | undefined ? T :
+    [RegisteredUpcast<T>] extends [never] ? GetPrimitiveUpcastable<T> : RegisteredUpcast<T>
+
+/**
+ * Gets the primitive base type for a given type using the built-in ladder only.
+ * 
+ * This is {@link GetUpcastable} without the {@link UpcastRegistry} rules.
+ * 
+ * @template T The type to get the primitive for
+ * @returns The primitive base type or `never`
+ * 
+ * @example
+ * ```typescript
+ * type A = GetPrimitiveUpcastable<'hello'>;        // string
+ * type B = GetPrimitiveUpcastable<object>;         // never
+ * type C = GetPrimitiveUpcastable<'hello' | null>; // string | null
+ * ```
+ */
+export type GetPrimitiveUpcastable<T> =
+    [Exclude<T, null | undefined>] extends [never] ? never :
+    T extends null | undefined ? T :
     T extends string ? string :
     T extends number ? number :
+    T extends bigint ? bigint :
     T extends boolean ? boolean :
+    T extends symbol ? symbol :
     never
 
 /**
- * Finds common properties between two types using strict type matching.
+ * Names of the flat unification modes.
  * 
- * Properties are included only if their types are exactly identical.
- * Properties with incompatible types are completely excluded from the result
- * (not included with `never` type). Uses key remapping to filter properties
- * at the type level.
+ * - `'strict'`: {@link StrictUnify}, as used by {@link CommonStrictPairs}
+ * - `'upcast'`: {@link UpcastUnify}, as used by {@link CommonUpcastPairs}
+ * - `'union'`: {@link UnionUnify}, as used by {@link CommonUnionPairs}
+ * - `'loose'`: {@link LooseUnify} with default options, as used by {@link CommonLoosePairs}
+ */
+export type CommonMode = "strict" | "upcast" | "union" | "loose"
+
+/**
+ * Unifies two property value types using the rules of the given mode.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Mode The unification mode
+ * @template Options Nullish options for the upcast and loose modes (default: `{}`)
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = ModeUnify<'cat', 'dog', 'strict'>; // never
+ * type B = ModeUnify<'cat', 'dog', 'upcast'>; // [string]
+ * type C = ModeUnify<'cat', 'dog', 'union'>;  // ['cat' | 'dog']
+ * ```
+ */
+export type ModeUnify<T, U, Mode extends CommonMode, Options extends LooseOptions = {}> =
+    Mode extends "strict" ? StrictUnify<T, U> :
+    Mode extends "upcast" ? NullishUnify<T, U, Options> :
+    Mode extends "union" ? UnionUnify<T, U> :
+    Mode extends "loose" ? LooseUnify<T, U, Options> :
+    never
+
+/**
+ * Determines if two types are identical.
+ * 
+ * Stricter than mutual assignability: `number` and a numeric enum member are
+ * mutually assignable, but not identical.
  * 
  * @template T First type
  * @template U Second type
- * @returns Object type with only properties that have exactly matching types
+ * @returns `true` if the types are identical, `false` otherwise
  * 
  * @example
  * ```typescript
- * interface A { name: string; type: 'cat'; active: true; }
- * interface B { name: string; type: 'dog'; active: false; }
+ * type A = IsIdentical<{ a: 1 }, { a: 1 }>;          // true
+ * type B = IsIdentical<{ a: 1 }, { readonly a: 1 }>; // false
+ * ```
+ */
+export type IsIdentical<T, U> =
+    (<X>() => X extends T ? 1 : 2) extends (<X>() => X extends U ? 1 : 2) ? true : false
+
+/**
+ * Determines if a property of a type is `readonly`.
  * 
- * type Result = CommonStrictPairs<A, B>; // { name: string }
- * // 'type' excluded: 'cat' !== 'dog'
- * // 'active' excluded: true !== false
- * // Only properties with identical types are included
+ * @template T The type containing the property
+ * @template K The property key to check
+ * @returns `true` if `T[K]` is readonly, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = IsReadonlyKey<{ readonly a: 1 }, 'a'>; // true
+ * type B = IsReadonlyKey<{ a: 1 }, 'a'>;          // false
  * ```
  */
-export type CommonStrictPairs<T, U> = {
-    [K in keyof T & keyof U as T[K] extends U[K]
-        ? U[K] extends T[K]
-        ? K
-        : never
-        : never]: T[K] extends U[K]
-    ? T[K]
-    : U[K] extends T[K]
-    ? U[K]
-    : never
-}
+export type IsReadonlyKey<T, K extends keyof T> =
+    IsIdentical<Pick<T, K>, { -readonly [P in K]: T[P] }> extends true ? false : true
 
 /**
- * Finds common properties between two types with primitive literal upcasting.
+ * Gets the keys of a type that are optional.
  * 
- * Properties are included if:
- * 1. Types are exactly identical, or
- * 2. One type is more general than the other (e.g., `string` vs `'literal'`), or
- * 3. Both are primitive literals that can be upcast to the same base type
+ * Index signatures are never reported as optional.
  * 
- * **Type Selection Priority**: When types can be unified, the more general type
- * is chosen to ensure maximum compatibility (e.g., `string` over `'cat'`).
- * This maintains upcasting behavior in recursive scenarios.
+ * @template T The type to get optional keys from
+ * @returns Union of optional property keys
+ * 
+ * @example
+ * ```typescript
+ * type A = OptionalKeys<{ a?: 1; b: 2; c?: 3 }>; // 'a' | 'c'
+ * ```
+ */
+export type OptionalKeys<T> = {
+    [K in keyof T]-?:
+    string extends K ? never :
+    number extends K ? never :
+    symbol extends K ? never :
+    {} extends Pick<T, K> ? K : never
+}[keyof T]
+
+/**
+ * Gets the keys of a type that are `readonly`.
+ * 
+ * @template T The type to get readonly keys from
+ * @returns Union of readonly property keys
+ * 
+ * @example
+ * ```typescript
+ * type A = ReadonlyKeys<{ readonly a: 1; b: 2 }>; // 'a'
+ * ```
+ */
+export type ReadonlyKeys<T> = {
+    [K in keyof T]-?: IsReadonlyKey<T, K> extends true ? K : never
+}[keyof T]
+
+/**
+ * Applies the property modifiers of two input types to a computed object type.
+ * 
+ * This is how the pair types keep modifiers even though their
+ * `keyof T & keyof U` key remapping is not homomorphic. A property of `Values`
+ * is `readonly` if it is readonly in either input, and optional if it is
+ * optional in either input.
+ * 
+ * @template Values Object type holding the unified property types
+ * @template T First input type
+ * @template U Second input type
+ * @returns `Values` with the combined `readonly` and `?` modifiers of `T` and `U`
+ * 
+ * @example
+ * ```typescript
+ * type A = WithModifiers<{ a: string; b: number }, { readonly a: 'x'; b?: 1 }, { a: 'y'; b: 2 }>;
+ * // { readonly a: string; b?: number }
+ * ```
+ */
+export type WithModifiers<Values, T, U> = WithModifierKeys<
+    Values,
+    OptionalKeys<T> | OptionalKeys<U>,
+    ReadonlyKeys<T> | ReadonlyKeys<U>
+>
+
+/**
+ * Marks the given keys of an object type as optional and/or `readonly`.
+ * 
+ * @template Values Object type to apply modifiers to
+ * @template Optional Keys to mark optional
+ * @template Readonly Keys to mark readonly
+ * @returns `Values` with the requested modifiers applied
+ * 
+ * @example
+ * ```typescript
+ * type A = WithModifierKeys<{ a: 1; b: 2 }, 'b', 'a'>; // { readonly a: 1; b?: 2 }
+ * ```
+ */
+export type WithModifierKeys<Values, Optional extends PropertyKey, Readonly extends PropertyKey> = Simplify<
+    { readonly [K in keyof Values as K extends Optional ? never : K extends Readonly ? K : never]: Values[K] } &
+    { readonly [K in keyof Values as K extends Optional ? K extends Readonly ? K : never : never]?: Values[K] } &
+    { [K in keyof Values as K extends Optional ? never : K extends Readonly ? never : K]: Values[K] } &
+    { [K in keyof Values as K extends Optional ? K extends Readonly ? never : K : never]?: Values[K] }
+>
+
+/**
+ * Unifies two property value types using strict type matching.
+ * 
+ * This is the per-property decision behind {@link CommonStrictPairs}. The
+ * unified type is wrapped in a one-element tuple so that a property which is
+ * legitimately typed `never` can be told apart from a failed match.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @returns `[T]` if the types are mutually assignable, `never` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = StrictUnify<string, string>; // [string]
+ * type B = StrictUnify<'cat', 'dog'>;   // never
+ * type C = StrictUnify<'cat', string>;  // never
+ * ```
+ */
+export type StrictUnify<T, U> =
+    [T] extends [U] ? ([U] extends [T] ? [T] : never) :
+    never
+
+/**
+ * Picks the more general of two types when one extends the other.
  * 
  * @template T First type
  * @template U Second type
- * @returns Object type with common properties, preferring general types when possible
+ * @returns The more general type wrapped in a tuple, or `never` if neither extends the other
  * 
  * @example
  * ```typescript
- * interface A { name: string; type: 'cat'; active: true; }
- * interface B { name: string; type: 'dog'; active: false; }
+ * type A = WiderOf<'cat', string>; // [string]
+ * type B = WiderOf<'cat', 'dog'>;  // never
+ * ```
+ */
+export type WiderOf<T, U> =
+    [T] extends [U] ? [U] :  // Exact match, or T is more specific: use the more general U
+    [U] extends [T] ? [T] :  // U is more specific: use the more general T
+    never
+
+/**
+ * Unifies two property value types with primitive literal upcasting.
  * 
- * type Result = CommonUpcastPairs<A, B>;
- * // { name: string; type: string; active: boolean }
- * // 'type': 'cat' | 'dog' → string (upcast to common base)
- * // 'active': true | false → boolean (upcast to common base)
+ * This is the per-property decision behind {@link CommonUpcastPairs}, tried
+ * in order:
+ * 1. Identical types are kept, and the more general type wins when one extends the other
+ * 2. Enum members of the same primitive kind are unified into their union,
+ *    which is their enum when they cover it
+ * 3. Upcastable types are widened with {@link GetUpcastable} (registry rules
+ *    first) and the more general of the two results is used
+ * 4. If the registered targets are unrelated, both are widened to their
+ *    primitive base with {@link GetPrimitiveUpcastable} instead
  * 
- * // Type priority example:
- * type Mixed = CommonUpcastPairs<{prop: string}, {prop: 'literal'}>;
- * // Result: {prop: string} - chooses more general type
+ * Arrays and tuples that do not extend one another are unified element by
+ * element with {@link ArrayUnify}, functions by signature with
+ * {@link FunctionUnify}, and built-in containers such as `Map`, `Set`,
+ * `Promise` and index signature records by their type arguments with
+ * {@link ContainerUnify}.
+ * 
+ * The unified type is wrapped in a one-element tuple so that a property which
+ * is legitimately typed `never` can be told apart from a failed match.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = UpcastUnify<'cat', 'dog'>;     // [string]
+ * type B = UpcastUnify<string, 'cat'>;    // [string]
+ * type C = UpcastUnify<1, 'one'>;         // never
+ * type D = UpcastUnify<{ a: 1 }, { a: 2 }>; // never
+ * type E = UpcastUnify<['a', 'b'], ['c']>;  // [string[]]
+ * type F = UpcastUnify<Map<'a', 1>, Map<'b', 2>>; // [Map<string, number>]
  * ```
  */
-export type CommonUpcastPairs<T, U> = {
-    [K in keyof T & keyof U as 
-        T[K] extends U[K]
-        ? U[K] extends T[K]
-        ? K  // Exact match
-        : K  // T is more specific than U, include
-        : U[K] extends T[K]
-        ? K  // U is more specific than T, include  
-        : IsUpcastable<T[K]> extends true
-        ? IsUpcastable<U[K]> extends true
-        ? GetUpcastable<T[K]> extends GetUpcastable<U[K]>
-        ? K
-        : never
-        : never
-        : never]:
-    T[K] extends U[K]
-    ? U[K] extends T[K]
-    ? T[K]  // Exact match, use either (they're the same)
-    : U[K]  // T is more specific, use the more general U
-    : U[K] extends T[K]
-    ? T[K]  // U is more specific, use the more general T
-    : IsUpcastable<T[K]> extends true
-    ? IsUpcastable<U[K]> extends true
-    ? GetUpcastable<T[K]> extends GetUpcastable<U[K]>
-    ? GetUpcastable<T[K]>
+export type UpcastUnify<T, U> =
+    [WiderOf<T, U>] extends [never]
+    ? [T] extends [readonly unknown[]]
+    ? [U] extends [readonly unknown[]]
+    ? ArrayUnify<T, U>
     : never
+    : IsFunction<T> extends true
+    ? IsFunction<U> extends true
+    ? FunctionUnify<T, U>
     : never
+    : IsUpcastable<T> extends true
+    ? IsUpcastable<U> extends true
+    ? [EnumUnify<T, U>] extends [never]
+    ? [WiderOf<GetUpcastable<T>, GetUpcastable<U>>] extends [never]
+    ? IsPrimitiveUpcastable<T> extends true
+    ? IsPrimitiveUpcastable<U> extends true
+    ? WiderOf<GetPrimitiveUpcastable<T>, GetPrimitiveUpcastable<U>>
     : never
-}
+    : never
+    : WiderOf<GetUpcastable<T>, GetUpcastable<U>>
+    : EnumUnify<T, U>
+    : never
+    : ContainerUnify<T, U>
+    : WiderOf<T, U>
 
 /**
- * Finds common properties across multiple types using strict type matching.
+ * Unifies two property value types by preserving both as a union.
  * 
- * Recursively processes an array of types, applying strict matching rules.
- * Properties are included only if they exist in all types with exactly matching types.
+ * This is the per-property decision behind {@link CommonUnionPairs}. It never
+ * fails, so any shared key is kept. The result is wrapped in a one-element
+ * tuple to match the shape of the other unify helpers.
  * 
- * @template T Array of types to find common properties for
- * @template Empty Default type for empty arrays (default: `{}`)
- * @returns Object type with strictly common properties
+ * @template T First value type
+ * @template U Second value type
+ * @returns `[T | U]`
  * 
  * @example
  * ```typescript
- * interface Cat { name: string; type: 'cat'; legs: 4; }
- * interface Dog { name: string; type: 'dog'; legs: 4; }
- * interface Bird { name: string; type: 'bird'; legs: 2; }
+ * type A = UnionUnify<'cat', 'dog'>;  // ['cat' | 'dog']
+ * type B = UnionUnify<true, false>;   // [boolean]
+ * ```
+ */
+export type UnionUnify<T, U> = [T | U]
+
+/**
+ * Names of the element unification rules {@link ArrayUnify} and {@link ContainerUnify} can apply.
  * 
- * type Result = CommonStrictProps<[Cat, Dog, Bird]>; // { name: string }
- * // 'type' excluded: 'cat' !== 'dog' !== 'bird'
- * // 'legs' excluded: 4 !== 2
+ * - `'upcast'`: {@link UpcastUnify}
+ * - `'deepStrict'`: {@link DeepStrictUnify}
+ * - `'deepUpcast'`: {@link DeepUpcastUnify}
+ */
+export type ElementUnifier = "upcast" | "deepStrict" | "deepUpcast"
+
+/**
+ * Unifies two array element types using the given element rules.
+ * 
+ * @template T First element type
+ * @template U Second element type
+ * @template Unifier The element unification rules
+ * @template Depth Remaining nesting depth for the deep rules
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = ElementUnify<'a', 'b', 'upcast', 5>; // [string]
  * ```
  */
-export type CommonStrictProps<T extends readonly unknown[], Empty = {}> = T extends readonly [infer First, infer Second, ...infer Rest]
-    ? Rest extends readonly []
-    ? CommonStrictPairs<First, Second>
-    : CommonStrictProps<[CommonStrictPairs<First, Second>, ...Rest]>
-    : T extends readonly [infer Only]
-    ? Only
-    : Empty
+export type ElementUnify<T, U, Unifier extends ElementUnifier, Depth extends number> =
+    Unifier extends "deepStrict" ? DeepStrictUnify<T, U, Depth> :
+    Unifier extends "deepUpcast" ? DeepUpcastUnify<T, U, Depth> :
+    UpcastUnify<T, U>
 
 /**
- * Finds common properties across multiple types with primitive literal upcasting.
+ * Unifies two fixed-length tuples element by element.
  * 
- * Recursively processes an array of types, applying upcast matching rules.
- * Properties are included if they exist in all types and can be unified through upcasting.
+ * Fails if the tuples differ in length, contain optional or rest elements,
+ * or any pair of elements cannot be unified.
  * 
- * @template T Array of types to find common properties for  
- * @template Empty Default type for empty arrays (default: `{}`)
- * @returns Object type with common properties, upcasting literals when possible
+ * @template T First tuple
+ * @template U Second tuple
+ * @template Unifier The element unification rules (default: `'upcast'`)
+ * @template Depth Remaining nesting depth for the deep rules (default: {@link DefaultDepth})
+ * @returns The unified mutable tuple wrapped in a tuple, or `never` if the tuples cannot be unified
  * 
  * @example
  * ```typescript
- * interface Cat { name: string; type: 'cat'; active: true; priority: 1; }
- * interface Dog { name: string; type: 'dog'; active: false; priority: 2; }
- * interface Bird { name: string; type: 'bird'; active: true; priority: 3; }
+ * type A = TupleUnify<['a', 1], ['b', 2]>; // [[string, number]]
+ * type B = TupleUnify<['a', 1], ['b']>;    // never
+ * ```
+ */
+export type TupleUnify<
+    T extends readonly unknown[],
+    U extends readonly unknown[],
+    Unifier extends ElementUnifier = "upcast",
+    Depth extends number = DefaultDepth,
+> =
+    // Wrapped to avoid distributing over unions of tuples, which would unify
+    // only the members that happen to match.
+    [T] extends [readonly []]
+    ? [U] extends [readonly []] ? [[]] : never
+    : [T] extends [readonly [infer TFirst, ...infer TRest]]
+    ? [U] extends [readonly [infer UFirst, ...infer URest]]
+    ? [ElementUnify<TFirst, UFirst, Unifier, Depth>] extends [never]
+    ? never
+    : [TupleUnify<TRest, URest, Unifier, Depth>] extends [never]
+    ? never
+    : [[ElementUnify<TFirst, UFirst, Unifier, Depth>[0], ...TupleUnify<TRest, URest, Unifier, Depth>[0]]]
+    : never
+    : never
+
+/**
+ * Makes an array type `readonly` if either input array is readonly.
  * 
- * type Result = CommonUpcastProps<[Cat, Dog, Bird]>;
- * // { name: string; type: string; active: boolean; priority: number }
- * // All literals are upcast to their primitive base types
+ * @template A The array type to adjust
+ * @template T First input array
+ * @template U Second input array
+ * @returns `A`, or `Readonly<A>` if `T` or `U` is readonly
+ * 
+ * @example
+ * ```typescript
+ * type A = ArrayReadonly<string[], readonly 'a'[], 'b'[]>; // readonly string[]
  * ```
  */
-export type CommonUpcastProps<T extends readonly unknown[], Empty = {}> = T extends readonly [infer First, infer Second, ...infer Rest]
-    ? Rest extends readonly []
-    ? CommonUpcastPairs<First, Second>
-    : CommonUpcastProps<[CommonUpcastPairs<First, Second>, ...Rest]>
-    : T extends readonly [infer Only]
-    ? Only
-    : Empty
+export type ArrayReadonly<A, T, U> =
+    [T] extends [unknown[]]
+    ? [U] extends [unknown[]] ? A : Readonly<A>
+    : Readonly<A>
+
+/**
+ * Unifies two array or tuple types.
+ * 
+ * Rules, tried in order:
+ * 1. Tuples of the same fixed length are unified element by element
+ *    (`['a', 1]` and `['b', 2]` → `[string, number]`)
+ * 2. Otherwise the element types are unified into an array
+ *    (`['a', 'b']` and `['c']` → `string[]`)
+ * 
+ * The result is `readonly` if either input is readonly, matching the rule for
+ * `readonly` properties. Arrays where one already extends the other never
+ * reach this type: the more general array is used as-is.
+ * 
+ * @template T First array type
+ * @template U Second array type
+ * @template Unifier The element unification rules (default: `'upcast'`)
+ * @template Depth Remaining nesting depth for the deep rules (default: {@link DefaultDepth})
+ * @returns The unified array type wrapped in a tuple, or `never` if the elements cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = ArrayUnify<['a', 'b'], ['c']>;                  // [string[]]
+ * type B = ArrayUnify<['a', 1], ['b', 2]>;                 // [[string, number]]
+ * type C = ArrayUnify<readonly 'a'[], 'b'[]>;              // [readonly string[]]
+ * type D = ArrayUnify<string[], number[]>;                 // never
+ * ```
+ */
+export type ArrayUnify<
+    T extends readonly unknown[],
+    U extends readonly unknown[],
+    Unifier extends ElementUnifier = "upcast",
+    Depth extends number = DefaultDepth,
+> =
+    [TupleUnify<T, U, Unifier, Depth>] extends [never]
+    ? [ElementUnify<T[number], U[number], Unifier, Depth>] extends [never]
+    ? never
+    : [ArrayReadonly<ElementUnify<T[number], U[number], Unifier, Depth>[0][], T, U>]
+    : [ArrayReadonly<TupleUnify<T, U, Unifier, Depth>[0], T, U>]
+
+/**
+ * Built-in object types that are not plain objects.
+ * 
+ * The deep modes do not recurse into their members; {@link ContainerUnify}
+ * unifies the type arguments of the generic ones instead.
+ */
+export type BuiltInObject =
+    Date | RegExp | Promise<unknown> | ReadonlyMap<unknown, unknown> | ReadonlySet<unknown> |
+    WeakMap<object, unknown> | WeakSet<object>
+
+/**
+ * Gets the keys of a type that are not index signatures.
+ * 
+ * @template T The type to inspect
+ * @returns Union of the literal keys of `T`
+ * 
+ * @example
+ * ```typescript
+ * type A = KnownKeys<{ id: string; [key: string]: unknown }>; // 'id'
+ * type B = KnownKeys<Record<string, number>>;                 // never
+ * ```
+ */
+export type KnownKeys<T> = keyof {
+    // Index signature keys such as `string` or `` `id-${string}` `` do not
+    // require any property, so the empty object satisfies them.
+    [K in keyof T as {} extends Record<K, unknown> ? never : K]: 0
+}
+
+/**
+ * Determines if a type is a record made only of index signatures.
+ * 
+ * @template T The type to check
+ * @returns `true` for types such as `Record<string, V>` or `{ [key: number]: V }`, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = IsRecord<Record<string, number>>; // true
+ * type B = IsRecord<Record<'a' | 'b', 1>>;   // false
+ * type C = IsRecord<{}>;                     // false
+ * ```
+ */
+export type IsRecord<T> =
+    IsPlainObject<T> extends true
+    ? [keyof T] extends [never] ? false
+    : [KnownKeys<T>] extends [never] ? true : false
+    : false
+
+/**
+ * Unifies two built-in containers of the same kind by their type arguments.
+ * 
+ * Rules, tried in order:
+ * 1. `Map` / `ReadonlyMap`: keys and values are unified separately
+ * 2. `Set` / `ReadonlySet`: the element types are unified
+ * 3. `Promise`: the resolved types are unified
+ * 4. Records with the same index signatures ({@link IsRecord}): the value types are unified
+ * 
+ * Maps and sets are `readonly` if either input is. Containers of different
+ * kinds, and records with literal keys, are not unified by this type.
+ * 
+ * @template T First container type
+ * @template U Second container type
+ * @template Unifier The type argument unification rules (default: `'upcast'`)
+ * @template Depth Remaining nesting depth for the deep rules (default: {@link DefaultDepth})
+ * @returns The unified container wrapped in a tuple, or `never` if the containers cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = ContainerUnify<Map<'a', 1>, Map<'b', 2>>;                 // [Map<string, number>]
+ * type B = ContainerUnify<Set<'x'>, ReadonlySet<'y'>>;               // [ReadonlySet<string>]
+ * type C = ContainerUnify<Promise<'ok'>, Promise<'err'>>;            // [Promise<string>]
+ * type D = ContainerUnify<Record<string, 'a'>, Record<string, 'b'>>; // [{ [key: string]: string }]
+ * type E = ContainerUnify<Set<'x'>, Set<1>>;                         // never
+ * ```
+ */
+export type ContainerUnify<T, U, Unifier extends ElementUnifier = "upcast", Depth extends number = DefaultDepth> =
+    [T] extends [ReadonlyMap<infer TKey, infer TValue>]
+    ? [U] extends [ReadonlyMap<infer UKey, infer UValue>]
+    ? [ElementUnify<TKey, UKey, Unifier, Depth>] extends [never]
+    ? never
+    : [ElementUnify<TValue, UValue, Unifier, Depth>] extends [never]
+    ? never
+    : [T | U] extends [Map<unknown, unknown>]
+    ? [Map<ElementUnify<TKey, UKey, Unifier, Depth>[0], ElementUnify<TValue, UValue, Unifier, Depth>[0]>]
+    : [ReadonlyMap<ElementUnify<TKey, UKey, Unifier, Depth>[0], ElementUnify<TValue, UValue, Unifier, Depth>[0]>]
+    : never
+    // Maps are structurally close to sets, so rule them out before comparing sets.
+    : [U] extends [ReadonlyMap<unknown, unknown>]
+    ? never
+    : [T] extends [ReadonlySet<infer TElement>]
+    ? [U] extends [ReadonlySet<infer UElement>]
+    ? [ElementUnify<TElement, UElement, Unifier, Depth>] extends [never]
+    ? never
+    : [T | U] extends [Set<unknown>]
+    ? [Set<ElementUnify<TElement, UElement, Unifier, Depth>[0]>]
+    : [ReadonlySet<ElementUnify<TElement, UElement, Unifier, Depth>[0]>]
+    : never
+    : [T] extends [Promise<infer TResult>]
+    ? [U] extends [Promise<infer UResult>]
+    ? [ElementUnify<TResult, UResult, Unifier, Depth>] extends [never]
+    ? never
+    : [Promise<ElementUnify<TResult, UResult, Unifier, Depth>[0]>]
+    : never
+    : IsRecord<T> extends true
+    ? IsRecord<U> extends true
+    ? IsIdentical<keyof T, keyof U> extends true
+    ? [ElementUnify<T[keyof T], U[keyof U], Unifier, Depth>] extends [never]
+    ? never
+    : [{ [K in keyof T]: ElementUnify<T[keyof T], U[keyof U], Unifier, Depth>[0] }]
+    : never
+    : never
+    : never
+
+/**
+ * Unifies two function types into a function type both can be used as.
+ * 
+ * Each pair of signatures is unified on its own: parameters are intersected
+ * and return types upcast or widened and unioned. Overloads (up to four) are
+ * paired by position when both functions have the same number, and every
+ * signature with every other otherwise; the results become the overloads of
+ * the unified function. Signatures whose parameters intersect to `never` are
+ * left out unless no other signature remains.
+ * 
+ * @template T First function type
+ * @template U Second function type
+ * @returns The unified function type wrapped in a tuple, or `never` if no signatures can be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = FunctionUnify<(e: ClickEvent) => 'ok', (e: KeyEvent) => 'err'>;
+ * // [(e: ClickEvent & KeyEvent) => string]
+ * ```
+ */
+export type FunctionUnify<T, U> =
+    CallableSignatures<SignaturePairs<FunctionSignatures<T>, FunctionSignatures<U>>> extends readonly [unknown, ...unknown[]]
+    ? [IntersectAll<CallableSignatures<SignaturePairs<FunctionSignatures<T>, FunctionSignatures<U>>>>]
+    : SignaturePairs<FunctionSignatures<T>, FunctionSignatures<U>> extends readonly [unknown, ...unknown[]]
+    ? [IntersectAll<SignaturePairs<FunctionSignatures<T>, FunctionSignatures<U>>>]
+    : never
+
+/**
+ * Options for merging nullish values in the upcast and loose modes.
+ * 
+ * `null` is merged unless `null` is `false`, so a literal paired with `null`
+ * widens to a nullable primitive. `undefined` usually stands for a missing
+ * value, so merging it is opt-in and conflicts involving it exclude the
+ * property unless declared as part of a union such as `string | undefined`.
+ * See {@link NullishUnify}.
+ */
+export type LooseOptions = {
+    /** Merge `null` into the unified type instead of excluding the property (default: `true`). */
+    null?: boolean
+    /** Merge `undefined` into the unified type instead of excluding the property (default: `false`). */
+    undefined?: boolean
+}
+
+/**
+ * The primitive types that loose mode can merge into a union.
+ */
+export type LoosePrimitive = string | number | bigint | boolean | symbol
+
+/**
+ * Gets the nullish types that the given options allow to be merged.
+ * 
+ * @template Options The nullish options
+ * @returns `null`, `undefined`, both or `never`
+ * 
+ * @example
+ * ```typescript
+ * type A = LooseNullish<{}>;                  // null
+ * type B = LooseNullish<{ undefined: true }>; // null | undefined
+ * type C = LooseNullish<{ null: false }>;     // never
+ * ```
+ */
+export type LooseNullish<Options extends LooseOptions> =
+    (Options["null"] extends false ? never : null) |
+    (Options["undefined"] extends true ? undefined : never)
+
+/**
+ * Widens each member of a union to its primitive base.
+ * 
+ * Literals are widened with {@link GetUpcastable}; primitive base types,
+ * `null` and `undefined` are kept as they are.
+ * 
+ * @template T The type to widen
+ * @returns The union of the widened members
+ * 
+ * @example
+ * ```typescript
+ * type A = WidenPrimitive<'a' | 1 | null>; // string | number | null
+ * ```
+ */
+export type WidenPrimitive<T> =
+    T extends null | undefined ? T :
+    [GetUpcastable<T>] extends [never] ? T :
+    GetUpcastable<T>
+
+/**
+ * Unifies two property value types with upcasting, merging `null` and `undefined` if enabled.
+ * 
+ * A side that is only one of the nullish types enabled in `Options` takes
+ * the other side, widened with {@link WidenPrimitive}. Otherwise the
+ * {@link UpcastUnify} rules are tried, so declared nullability (`string` vs
+ * `string | null`, `'a' | null` vs `'b'`) is kept. When they fail, the
+ * enabled nullish types are set aside, the rest of both sides must unify by
+ * the upcast rules, and the nullish types of both sides are added back.
+ * 
+ * Widening whenever a side is only nullish, rather than only when the upcast
+ * rules fail, means `'a'`, `'a' | null` and `null` give `string | null` in
+ * any order. `null` is enabled by default; with `{ null: false }` this is
+ * {@link UpcastUnify}.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Options Which nullish types to merge (default: `{}`)
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = NullishUnify<'a', null>;                        // [string | null]
+ * type B = NullishUnify<'a', null, { null: false }>;       // never
+ * type C = NullishUnify<'a' | null, 'b'>;                  // [string | null]
+ * type D = NullishUnify<'a' | null, 1>;                    // never
+ * type E = NullishUnify<{ a: 1 }, undefined, { undefined: true }>; // [{ a: 1 } | undefined]
+ * ```
+ */
+export type NullishUnify<T, U, Options extends LooseOptions = {}> =
+    [LooseNullish<Options>] extends [never]
+    ? UpcastUnify<T, U>
+    : [Exclude<T, LooseNullish<Options>>] extends [never]
+    ? [WidenPrimitive<U> | T]
+    : [Exclude<U, LooseNullish<Options>>] extends [never]
+    ? [WidenPrimitive<T> | U]
+    : [UpcastUnify<T, U>] extends [never]
+    ? [UpcastUnify<Exclude<T, LooseNullish<Options>>, Exclude<U, LooseNullish<Options>>>] extends [never]
+    ? never
+    : [UpcastUnify<Exclude<T, LooseNullish<Options>>, Exclude<U, LooseNullish<Options>>>[0] | Extract<T | U, LooseNullish<Options>>]
+    : UpcastUnify<T, U>
+
+/**
+ * Unifies two property value types, merging mismatched primitives into a union.
+ * 
+ * This is the per-property decision behind {@link CommonLoosePairs}. The
+ * {@link NullishUnify} rules are tried first. When they fail and both types are
+ * made only of primitives (plus the nullish types enabled in `Options`),
+ * the result is the union of their widened bases. Anything else, such as
+ * object types, is excluded as in upcast mode.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Options Loose mode options (default: `{}`)
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = LooseUnify<string, number>;              // [string | number]
+ * type B = LooseUnify<'a' | 1, true>;               // [string | number | boolean]
+ * type C = LooseUnify<'a', null>;                   // [string | null]
+ * type D = LooseUnify<'a', null, { null: false }>;  // never
+ * ```
+ */
+export type LooseUnify<T, U, Options extends LooseOptions = {}> =
+    [NullishUnify<T, U, Options>] extends [never]
+    ? [T | U] extends [LoosePrimitive | LooseNullish<Options>]
+    ? [WidenPrimitive<T | U>]
+    : never
+    : NullishUnify<T, U, Options>
+
+/**
+ * Finds common properties between two types using strict type matching.
+ * 
+ * Properties are included only if their types are exactly identical.
+ * Properties with incompatible types are completely excluded from the result
+ * (not included with `never` type). Uses key remapping to filter properties
+ * at the type level.
+ * 
+ * A property is `readonly` if it is readonly in either type, and optional if
+ * it is optional in either type (see {@link WithModifiers}). Optional
+ * properties are compared by their declared type, without the implicit
+ * `undefined`.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @returns Object type with only properties that have exactly matching types
+ * 
+ * @example
+ * ```typescript
+ * interface A { name: string; type: 'cat'; active: true; }
+ * interface B { name: string; type: 'dog'; active: false; }
+ * 
+ * type Result = CommonStrictPairs<A, B>; // { name: string }
+ * // 'type' excluded: 'cat' !== 'dog'
+ * // 'active' excluded: true !== false
+ * // Only properties with identical types are included
+ * ```
+ */
+export type CommonStrictPairs<T, U> = WithModifiers<{
+    [K in keyof T & keyof U as [StrictUnify<Required<T>[K], Required<U>[K]>] extends [never] ? never : K]:
+    StrictUnify<Required<T>[K], Required<U>[K]>[0]
+}, T, U>
+
+/**
+ * Finds common properties between two types with primitive literal upcasting.
+ * 
+ * Properties are included if:
+ * 1. Types are exactly identical, or
+ * 2. One type is more general than the other (e.g., `string` vs `'literal'`), or
+ * 3. Both are primitive literals that can be upcast to the same base type
+ * 
+ * **Type Selection Priority**: When types can be unified, the more general type
+ * is chosen to ensure maximum compatibility (e.g., `string` over `'cat'`).
+ * This maintains upcasting behavior in recursive scenarios.
+ * 
+ * Modifiers follow the same rules as {@link CommonStrictPairs}: `readonly` or
+ * optional in either type makes the property `readonly` or optional.
+ * 
+ * A literal paired with `null` widens to a nullable primitive unless
+ * `Options` disables it, and a literal paired with `undefined` does so only
+ * if enabled; otherwise the property is excluded (see {@link NullishUnify}).
+ * 
+ * @template T First type
+ * @template U Second type
+ * @template Options Which nullish types to merge (default: `{}`)
+ * @returns Object type with common properties, preferring general types when possible
+ * 
+ * @example
+ * ```typescript
+ * interface A { name: string; type: 'cat'; active: true; }
+ * interface B { name: string; type: 'dog'; active: false; }
+ * 
+ * type Result = CommonUpcastPairs<A, B>;
+ * // { name: string; type: string; active: boolean }
+ * // 'type': 'cat' | 'dog' → string (upcast to common base)
+ * // 'active': true | false → boolean (upcast to common base)
+ * 
+ * // Type priority example:
+ * type Mixed = CommonUpcastPairs<{prop: string}, {prop: 'literal'}>;
+ * // Result: {prop: string} - chooses more general type
+ * 
+ * type Row = CommonUpcastPairs<{ deletedAt: 'never' }, { deletedAt: null }>;
+ * // Result: { deletedAt: string | null }
+ * 
+ * type Strict = CommonUpcastPairs<{ deletedAt: 'never' }, { deletedAt: null }, { null: false }>;
+ * // Result: {}
+ * ```
+ */
+export type CommonUpcastPairs<T, U, Options extends LooseOptions = {}> = WithModifiers<{
+    [K in keyof T & keyof U as [NullishUnify<Required<T>[K], Required<U>[K], Options>] extends [never] ? never : K]:
+    NullishUnify<Required<T>[K], Required<U>[K], Options>[0]
+}, T, U>
+
+/**
+ * Finds common properties between two types, preserving literal values as unions.
+ * 
+ * Every key present in both types is included, typed as the union of the two
+ * value types. Unlike {@link CommonUpcastPairs}, literals are not widened to
+ * their primitive base, so the exact set of allowed values is kept.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @returns Object type with all shared properties typed as the union of their values
+ * 
+ * @example
+ * ```typescript
+ * interface A { name: string; type: 'cat'; active: true; }
+ * interface B { name: string; type: 'dog'; active: false; }
+ * 
+ * type Result = CommonUnionPairs<A, B>;
+ * // { name: string; type: 'cat' | 'dog'; active: boolean }
+ * ```
+ */
+export type CommonUnionPairs<T, U> = WithModifiers<{
+    [K in keyof T & keyof U]: UnionUnify<Required<T>[K], Required<U>[K]>[0]
+}, T, U>
+
+/**
+ * Finds common properties between two types, merging mismatched primitives into unions.
+ * 
+ * Behaves like {@link CommonUpcastPairs}, except that a property typed with
+ * different primitives (e.g. `string` and `number`, or `'a' | 1`) is kept and
+ * typed as the union of the widened bases instead of being excluded.
+ * `Options` controls whether `null` and `undefined` may be merged in too.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @template Options Loose mode options (default: `{}`)
+ * @returns Object type with common properties, merging mismatched primitives
+ * 
+ * @example
+ * ```typescript
+ * interface A { id: string; deleted: null; }
+ * interface B { id: number; deleted: 'yes'; }
+ * 
+ * type Result = CommonLoosePairs<A, B>;                   // { id: string | number; deleted: string | null }
+ * type NoNulls = CommonLoosePairs<A, B, { null: false }>; // { id: string | number }
+ * ```
+ */
+export type CommonLoosePairs<T, U, Options extends LooseOptions = {}> = WithModifiers<{
+    [K in keyof T & keyof U as [LooseUnify<Required<T>[K], Required<U>[K], Options>] extends [never] ? never : K]:
+    LooseUnify<Required<T>[K], Required<U>[K], Options>[0]
+}, T, U>
+
+/**
+ * Converts an array of variants to a tuple of variants.
+ * 
+ * Fixed tuples are returned as they are. Arrays like `(Cat | Dog)[]`, or
+ * tuples with rest elements, are converted from the union of their elements.
+ * Arrays whose elements are not all objects, such as `string[]`,
+ * `unknown[]` or `(Cat | null)[]`, have no variants and convert to `[]`.
+ * 
+ * @template T Array of types
+ * @returns Tuple of the variants in `T`
+ * 
+ * @example
+ * ```typescript
+ * type A = VariantTuple<[Cat, Dog]>;    // [Cat, Dog]
+ * type B = VariantTuple<(Cat | Dog)[]>; // [Cat, Dog]
+ * type C = VariantTuple<string[]>;      // []
+ * ```
+ */
+export type VariantTuple<T extends readonly unknown[]> =
+    number extends T["length"]
+    ? [T[number]] extends [object] ? UnionToTuple<T[number]> : []
+    : T
+
+/**
+ * Names of the modes that combine two types at a time.
+ * 
+ * The flat modes of {@link CommonMode} plus the deep modes.
+ */
+export type PairMode = CommonMode | "deepStrict" | "deepUpcast"
+
+/**
+ * Finds the common properties of two types using the pair type of a mode.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @template Mode The mode to use
+ * @template Options Nullish options for the upcast and loose modes (default: `{}`)
+ * @template Depth Maximum nesting depth for the deep modes (default: {@link DefaultDepth})
+ * @returns Object type with the common properties of `T` and `U`
+ * 
+ * @example
+ * ```typescript
+ * type A = ModePairs<{ a: 'x' }, { a: 'y' }, "upcast">; // { a: string }
+ * ```
+ */
+export type ModePairs<T, U, Mode extends PairMode, Options extends LooseOptions = {}, Depth extends number = DefaultDepth> =
+    Mode extends "strict" ? CommonStrictPairs<T, U> :
+    Mode extends "upcast" ? CommonUpcastPairs<T, U, Options> :
+    Mode extends "union" ? CommonUnionPairs<T, U> :
+    Mode extends "loose" ? CommonLoosePairs<T, U, Options> :
+    Mode extends "deepStrict" ? CommonDeepStrictPairs<T, U, Depth> :
+    Mode extends "deepUpcast" ? CommonDeepUpcastPairs<T, U, Depth> :
+    never
+
+/**
+ * Finds the common properties of a tuple of types using the pair type of a mode.
+ * 
+ * Reduces the tuple by combining adjacent pairs with {@link ModePairs}
+ * until one type is left. Each round halves the tuple, so the result is
+ * nested only logarithmically deep in the number of types, and several
+ * hundred types can be compared without hitting the compiler's
+ * instantiation depth limit. Arrays that are not fixed tuples are converted
+ * with {@link VariantTuple} first.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Mode The mode to use
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @template Options Nullish options for the upcast and loose modes (default: `{}`)
+ * @template Depth Maximum nesting depth for the deep modes (default: {@link DefaultDepth})
+ * @returns Object type with the common properties of every type in `T`
+ * 
+ * @example
+ * ```typescript
+ * type A = ReduceVariants<[Cat, Dog, Bird], "upcast">; // same as CommonUpcastProps<[Cat, Dog, Bird]>
+ * ```
+ */
+export type ReduceVariants<T extends readonly unknown[], Mode extends PairMode, Empty = {}, Options extends LooseOptions = {}, Depth extends number = DefaultDepth> =
+    number extends T["length"]
+    ? ReduceVariants<VariantTuple<T>, Mode, Empty, Options, Depth>
+    : T extends readonly [infer Only]
+    ? Only
+    : T extends readonly [unknown, unknown, ...unknown[]]
+    ? ReduceVariants<PairAdjacent<T, Mode, Options, Depth>, Mode, Empty, Options, Depth>
+    : Empty
+
+/**
+ * Options for {@link CommonProps}.
+ * 
+ * Every option has a default. `depth` needs the strict or upcast mode and
+ * `optional: 'all'`, and `nullable` needs the upcast or loose mode without
+ * `depth`; other combinations do not satisfy this type.
+ */
+export type CommonPropsOptions = {
+    /** How property values are unified (default: `'strict'`). */
+    mode?: CommonMode
+    /** The result for an empty tuple (default: `{}`). */
+    empty?: unknown
+    /**
+     * `'all'` keeps keys every type has. `'any'` keeps keys any type has,
+     * optional where some types lack them (default: `'all'`).
+     */
+    optional?: "any" | "all"
+    /**
+     * `true` merges `null` and `undefined` into the unified type instead of
+     * excluding the property, `false` merges neither, or the
+     * {@link LooseOptions} to pick (default: merge `null` only).
+     * See {@link NullishUnify}.
+     */
+    nullable?: boolean | LooseOptions
+    /** Recurse into nested objects up to this depth (default: no recursion). */
+    depth?: number
+} & ({
+    /** The modes that can merge nullish values. */
+    mode: "upcast" | "loose"
+    /** Not set, so the result is flat. */
+    depth?: never
+} | {
+    /** Modes that do not merge nullish values. */
+    mode?: "strict" | "union"
+    /** Only available in upcast and loose mode. */
+    nullable?: never
+    /** Not set, so the result is flat. */
+    depth?: never
+} | {
+    /** The modes with a deep variant. */
+    mode?: "strict" | "upcast"
+    /** Deep results keep only the keys every type has. */
+    optional?: "all"
+    /** Only available in flat upcast and loose results. */
+    nullable?: never
+})
+
+/**
+ * Finds common properties across multiple types, configured by an options object.
+ * 
+ * The single entry point for every mode: the named types such as
+ * {@link CommonStrictProps}, {@link CommonUpcastProps} and
+ * {@link CommonPartialProps} are aliases of it. Options that are not given
+ * take their defaults, so `CommonProps<T>` is `CommonStrictProps<T>`.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Options The {@link CommonPropsOptions} (default: `{}`)
+ * @returns Object type with the common properties under the options
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; lives: 9; meta: { id: string; born: number }; }
+ * interface Dog { name: string; type: 'dog'; meta: { id: string; good: true }; }
+ * 
+ * type A = CommonProps<[Cat, Dog]>;                                     // { name: string }
+ * type B = CommonProps<[Cat, Dog], { mode: 'upcast' }>;                 // { name: string; type: string }
+ * type C = CommonProps<[Cat, Dog], { mode: 'upcast'; depth: 2 }>;       // { name: string; type: string; meta: { id: string } }
+ * type D = CommonProps<[Cat, Dog], { mode: 'upcast'; optional: 'any' }>; // { name: string; type: string; lives?: 9 }
+ * ```
+ */
+export type CommonProps<T extends readonly unknown[], Options extends CommonPropsOptions = {}> =
+    OptionOr<Options, "optional", "all"> extends "any"
+    ? PartialVariants<T, OptionOr<Options, "mode", "strict">, EmptyOption<Options>, NullableOptions<OptionOr<Options, "nullable", {}>>>
+    : ReduceVariants<T, OptionsMode<Options>, EmptyOption<Options>, NullableOptions<OptionOr<Options, "nullable", {}>>, OptionOr<Options, "depth", DefaultDepth>>
+
+/**
+ * Finds common properties across multiple types using strict type matching.
+ * 
+ * Recursively processes an array of types, applying strict matching rules.
+ * Properties are included only if they exist in all types with exactly matching types.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with strictly common properties
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; legs: 4; }
+ * interface Dog { name: string; type: 'dog'; legs: 4; }
+ * interface Bird { name: string; type: 'bird'; legs: 2; }
+ * 
+ * type Result = CommonStrictProps<[Cat, Dog, Bird]>; // { name: string }
+ * // 'type' excluded: 'cat' !== 'dog' !== 'bird'
+ * // 'legs' excluded: 4 !== 2
+ * ```
+ */
+export type CommonStrictProps<T extends readonly unknown[], Empty = {}> = CommonProps<T, {
+    /** Compare values strictly. */
+    mode: "strict"
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
+
+/**
+ * Finds common properties across multiple types with primitive literal upcasting.
+ * 
+ * Recursively processes an array of types, applying upcast matching rules.
+ * Properties are included if they exist in all types and can be unified through upcasting.
+ * 
+ * Nullability declared in a union is kept, so `'a' | null` and `'b'` unify
+ * to `string | null`. A literal paired with a property typed only `null`
+ * widens the same way unless `Options` disables it, and one paired with
+ * `undefined` excludes the property unless `Options` enables it, as the
+ * `nullable` option of {@link CommonProps} does.
+ * 
+ * @template T Array of types to find common properties for  
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @template Options Which nullish types to merge, see {@link NullishUnify} (default: `{}`)
+ * @returns Object type with common properties, upcasting literals when possible
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; active: true; priority: 1; }
+ * interface Dog { name: string; type: 'dog'; active: false; priority: 2; }
+ * interface Bird { name: string; type: 'bird'; active: true; priority: 3; }
+ * 
+ * type Result = CommonUpcastProps<[Cat, Dog, Bird]>;
+ * // { name: string; type: string; active: boolean; priority: number }
+ * // All literals are upcast to their primitive base types
+ * 
+ * type Nullable = CommonUpcastProps<[{ a: 'x' }, { a: null }]>;
+ * // { a: string | null }
+ * 
+ * type NotNullable = CommonUpcastProps<[{ a: 'x' }, { a: null }], {}, { null: false }>;
+ * // {}
+ * ```
+ */
+export type CommonUpcastProps<T extends readonly unknown[], Empty = {}, Options extends LooseOptions = {}> = CommonProps<T, {
+    /** Upcast literals to their primitives. */
+    mode: "upcast"
+    /** The result for an empty tuple. */
+    empty: Empty
+    /** The nullish types to merge. */
+    nullable: Options
+}>
+
+/**
+ * Finds common properties across the members of a union using strict type matching.
+ * 
+ * The union form of {@link CommonStrictProps}, for variant sets that are
+ * already declared as a union.
+ * 
+ * @template U Union of types to find common properties for
+ * @template Empty Default type for `never` (default: `{}`)
+ * @returns Object type with strictly common properties
+ * 
+ * @example
+ * ```typescript
+ * type Animal = Cat | Dog | Bird;
+ * 
+ * type Result = CommonStrictOf<Animal>; // same as CommonStrictProps<[Cat, Dog, Bird]>
+ * ```
+ */
+export type CommonStrictOf<U, Empty = {}> = CommonStrictProps<UnionToTuple<U>, Empty>
+
+/**
+ * Finds common properties across the members of a union with primitive literal upcasting.
+ * 
+ * The union form of {@link CommonUpcastProps}, for variant sets that are
+ * already declared as a union.
+ * 
+ * The members are unified in the compiler's union order. The result does not
+ * depend on it, except for a property typed with a union that mixes
+ * primitive kinds, such as `number | 'a'` next to `'a'` and `1`: `'a'` and
+ * `1` do not unify, but each unifies with `number | 'a'`, so the property is
+ * kept or excluded depending on which pair comes first.
+ * 
+ * @template U Union of types to find common properties for
+ * @template Empty Default type for `never` (default: `{}`)
+ * @template Options Which nullish types to merge, see {@link NullishUnify} (default: `{}`)
+ * @returns Object type with common properties, upcasting literals where needed
+ * 
+ * @example
+ * ```typescript
+ * type Animal = Cat | Dog | Bird;
+ * 
+ * type Result = CommonUpcastOf<Animal>; // same as CommonUpcastProps<[Cat, Dog, Bird]>
+ * ```
+ */
+export type CommonUpcastOf<U, Empty = {}, Options extends LooseOptions = {}> = CommonUpcastProps<UnionToTuple<U>, Empty, Options>
+
+/**
+ * Gets the types of an object of named variants as a tuple.
+ * 
+ * The tuple has one variant per key, so every variant is kept even if two of
+ * them are the same type. The keys are collected from a union, so their
+ * order is up to the compiler, like the order of union members; pass
+ * `Labels` to fix it.
+ * 
+ * @template R Object whose values are the variants, such as `{ cat: Cat; dog: Dog }`
+ * @template Labels The keys of `R` to collect, in order (default: every key)
+ * @template Acc Variants collected so far (internal)
+ * @returns Tuple of the variants
+ * 
+ * @example
+ * ```typescript
+ * type A = VariantsOf<{ cat: Cat; dog: Dog }>;                 // [Cat, Dog] or [Dog, Cat]
+ * type B = VariantsOf<{ cat: Cat; dog: Dog }, ['dog', 'cat']>; // [Dog, Cat]
+ * ```
+ */
+export type VariantsOf<R extends object, Labels extends readonly unknown[] = UnionToTuple<keyof R>, Acc extends unknown[] = []> =
+    Labels extends readonly [infer Label, ...infer Rest]
+    ? VariantsOf<R, Rest, [...Acc, R[Label & keyof R]]>
+    : Acc
+
+/**
+ * Finds common properties across an object of named variants, configured by an options object.
+ * 
+ * The named form of {@link CommonProps}. Accepts a `Record<Kind, Variant>`
+ * registry directly.
+ * 
+ * @template R Object whose values are the variants
+ * @template Options The {@link CommonPropsOptions} (default: `{}`)
+ * @returns Object type with the common properties of the variants
+ * 
+ * @example
+ * ```typescript
+ * type A = CommonPropsOf<{ cat: Cat; dog: Dog }, { mode: 'upcast' }>; // same as CommonUpcastProps<[Cat, Dog]>
+ * ```
+ */
+export type CommonPropsOf<R extends object, Options extends CommonPropsOptions = {}> = CommonProps<VariantsOf<R>, Options>
+
+/**
+ * Finds common properties across an object of named variants using strict type matching.
+ * 
+ * The named form of {@link CommonStrictProps}.
+ * 
+ * @template R Object whose values are the variants
+ * @template Empty Default type for an object without variants (default: `{}`)
+ * @returns Object type with strictly common properties
+ * 
+ * @example
+ * ```typescript
+ * type A = CommonStrictPropsOf<{ cat: Cat; dog: Dog }>; // same as CommonStrictProps<[Cat, Dog]>
+ * ```
+ */
+export type CommonStrictPropsOf<R extends object, Empty = {}> = CommonStrictProps<VariantsOf<R>, Empty>
+
+/**
+ * Finds common properties across an object of named variants with primitive literal upcasting.
+ * 
+ * The named form of {@link CommonUpcastProps}. The variants are unified in
+ * the order of {@link VariantsOf}, which only matters in the case described
+ * for {@link CommonUpcastOf}.
+ * 
+ * @template R Object whose values are the variants
+ * @template Empty Default type for an object without variants (default: `{}`)
+ * @template Options Which nullish types to merge, see {@link NullishUnify} (default: `{}`)
+ * @returns Object type with common properties, upcasting literals where needed
+ * 
+ * @example
+ * ```typescript
+ * type A = CommonUpcastPropsOf<{ cat: Cat; dog: Dog }>; // same as CommonUpcastProps<[Cat, Dog]>
+ * ```
+ */
+export type CommonUpcastPropsOf<R extends object, Empty = {}, Options extends LooseOptions = {}> = CommonUpcastProps<VariantsOf<R>, Empty, Options>
+
+/**
+ * Finds common properties across multiple types, preserving literal values as unions.
+ * 
+ * Recursively processes an array of types, keeping every key that exists in
+ * all of them and typing it as the union of the value types. This keeps the
+ * literals available for exhaustive `switch` statements over the result.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with common properties typed as the union of their values
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; active: true; }
+ * interface Dog { name: string; type: 'dog'; active: false; }
+ * interface Bird { name: string; type: 'bird'; active: true; }
+ * 
+ * type Result = CommonUnionProps<[Cat, Dog, Bird]>;
+ * // { name: string; type: 'cat' | 'dog' | 'bird'; active: boolean }
+ * ```
+ */
+export type CommonUnionProps<T extends readonly unknown[], Empty = {}> = CommonProps<T, {
+    /** Union the values. */
+    mode: "union"
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
+
+/**
+ * Finds common properties across multiple types, merging mismatched primitives into unions.
+ * 
+ * Recursively processes an array of types, applying loose matching rules.
+ * This matches how loosely typed records look in practice, where the same
+ * field may hold a string in one variant and a number in another.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Options Loose mode options (default: `{}`)
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with common properties, merging mismatched primitives
+ * 
+ * @example
+ * ```typescript
+ * interface Legacy { id: string; count: '3'; note: string; }
+ * interface Current { id: number; count: 3; note: null; }
+ * 
+ * type Result = CommonLooseProps<[Legacy, Current]>;
+ * // { id: string | number; count: string | number }
+ * 
+ * type Nullable = CommonLooseProps<[Legacy, Current], { null: true }>;
+ * // { id: string | number; count: string | number; note: string | null }
+ * ```
+ */
+export type CommonLooseProps<T extends readonly unknown[], Options extends LooseOptions = {}, Empty = {}> = CommonProps<T, {
+    /** Merge mismatched primitives. */
+    mode: "loose"
+    /** The nullish types to merge. */
+    nullable: Options
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
+
+/**
+ * Gets every key that appears in any type of a tuple.
+ * 
+ * @template T Tuple of types
+ * @returns Union of the keys of all types in `T`
+ * 
+ * @example
+ * ```typescript
+ * type A = AllKeys<[{ a: 1; b: 2 }, { b: 3; c: 4 }]>; // 'a' | 'b' | 'c'
+ * ```
+ */
+export type AllKeys<T extends readonly unknown[]> = { [I in keyof T]: keyof T[I] }[number]
+
+/**
+ * Gets the keys that appear in every type of a tuple.
+ * 
+ * @template T Tuple of types
+ * @returns Intersection of the keys of all types in `T`, or `never` for an empty tuple
+ * 
+ * @example
+ * ```typescript
+ * type A = SharedKeys<[{ a: 1; b: 2 }, { b: 3; c: 4 }]>; // 'b'
+ * ```
+ */
+export type SharedKeys<T extends readonly unknown[]> =
+    // The keys of a union are the keys shared by all of its members.
+    [T[number]] extends [never] ? never : keyof T[number]
+
+/**
+ * Collects the declared type of a property from every type of a tuple that has it.
+ * 
+ * Types without the property are skipped. Optional properties contribute
+ * their declared type, without the implicit `undefined`.
+ * 
+ * @template T Tuple of types
+ * @template K The property key to collect
+ * @template Acc Values collected so far (internal)
+ * @returns Tuple of the property types, in input order
+ * 
+ * @example
+ * ```typescript
+ * type A = PresentValues<[{ a: 1 }, { b: 2 }, { a?: 3 }], 'a'>; // [1, 3]
+ * ```
+ */
+export type PresentValues<T extends readonly unknown[], K, Acc extends unknown[] = []> =
+    T extends readonly [infer First, ...infer Rest]
+    ? K extends keyof First
+    ? PresentValues<Rest, K, [...Acc, Required<First>[K]]>
+    : PresentValues<Rest, K, Acc>
+    : Acc
+
+/**
+ * Unifies a tuple of value types using the rules of the given mode.
+ * 
+ * Reduces the values by unifying adjacent pairs with {@link ModeUnify}
+ * until one is left, failing as soon as any pair fails. This pairs values
+ * the same way {@link ReduceVariants} pairs types, so the result agrees with
+ * the tuple types even where unifying in another order would not, such as
+ * for functions returning different literals.
+ * 
+ * @template V Tuple of value types
+ * @template Mode The unification mode
+ * @template Options Nullish options for the upcast and loose modes (default: `{}`)
+ * @returns The unified type wrapped in a tuple, or `never` if the values cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = ModeUnifyAll<['cat', 'dog'], 'upcast'>; // [string]
+ * type B = ModeUnifyAll<['cat', 'dog'], 'strict'>; // never
+ * ```
+ */
+export type ModeUnifyAll<V extends readonly unknown[], Mode extends CommonMode, Options extends LooseOptions = {}> =
+    V extends readonly [infer Only]
+    ? [Only]
+    : V extends readonly [unknown, unknown, ...unknown[]]
+    ? UnifyAdjacent<V, Mode, Options> extends infer Next extends unknown[]
+    ? [Next] extends [never] ? never : ModeUnifyAll<Next, Mode, Options>
+    : never
+    : never
+
+/**
+ * Unifies a tuple of value types with primitive literal upcasting.
+ * 
+ * Shorthand for {@link ModeUnifyAll} in `'upcast'` mode.
+ * 
+ * @template V Tuple of value types
+ * @returns The unified type wrapped in a tuple, or `never` if the values cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = UpcastUnifyAll<['cat', 'dog', string]>; // [string]
+ * type B = UpcastUnifyAll<['cat', 1]>;             // never
+ * ```
+ */
+export type UpcastUnifyAll<V extends readonly unknown[]> = ModeUnifyAll<V, "upcast">
+
+/**
+ * Finds the properties of a tuple of types that can be safely read from any of them.
+ * 
+ * Unlike {@link CommonUpcastProps}, keys that exist in only some of the types
+ * are kept. A property is required if every type has it as a required
+ * property, and optional otherwise. Its value is the upcast unification of
+ * the types that have it; properties whose values cannot be unified are
+ * excluded. A property is `readonly` if it is readonly in any type.
+ * 
+ * This models what a function can read off an object of unknown variant
+ * without narrowing first.
+ * 
+ * @template T Array of types to find properties for
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with every unifiable property, optional where not shared
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; meows: true; }
+ * interface Dog { name: string; type: 'dog'; barks: true; }
+ * interface Bird { name: string; type: 'bird'; sings: true; }
+ * 
+ * type Result = CommonPartialProps<[Cat, Dog, Bird]>;
+ * // { name: string; type: string; meows?: true; barks?: true; sings?: true }
+ * ```
+ */
+export type CommonPartialProps<T extends readonly unknown[], Empty = {}> = CommonProps<T, {
+    /** Upcast literals to their primitives. */
+    mode: "upcast"
+    /** Keep keys that only some types have. */
+    optional: "any"
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
+
+/**
+ * Finds the properties of a tuple of types that can be read from any of them, using a mode.
+ * 
+ * The reduction behind {@link CommonPartialProps} and `optional: 'any'` in
+ * {@link CommonProps}. Keys from any type are kept, optional unless every
+ * type has them as required properties, if {@link ModeUnifyAll} can unify
+ * the values of the types that have them.
+ * 
+ * @template T Array of types to find properties for
+ * @template Mode The mode to unify values with
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @template Options Nullish options for the upcast and loose modes (default: `{}`)
+ * @returns Object type with every unifiable property, optional where not shared
+ * 
+ * @example
+ * ```typescript
+ * type A = PartialVariants<[{ id: 1; a: 1 }, { id: 2; b: 1 }], "strict">; // { a?: 1; b?: 1 }
+ * type B = PartialVariants<[{ id: 1; a: 1 }, { id: 2; b: 1 }], "upcast">; // { id: number; a?: 1; b?: 1 }
+ * ```
+ */
+export type PartialVariants<T extends readonly unknown[], Mode extends CommonMode, Empty = {}, Options extends LooseOptions = {}> = number extends T["length"]
+    ? PartialVariants<VariantTuple<T>, Mode, Empty, Options>
+    : T extends readonly [unknown, ...unknown[]]
+    ? WithModifierKeys<{
+        [K in AllKeys<T> as [ModeUnifyAll<PresentValues<T, K>, Mode, Options>] extends [never] ? never : K]:
+        ModeUnifyAll<PresentValues<T, K>, Mode, Options>[0]
+    },
+        Exclude<AllKeys<T>, SharedKeys<T>> | { [I in keyof T]: OptionalKeys<T[I]> }[number],
+        { [I in keyof T]: ReadonlyKeys<T[I]> }[number]
+    >
+    : Empty
+
+/**
+ * Finds the properties of two types that can be safely read from either of them.
+ * 
+ * The two-type form of {@link CommonPartialProps}.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @returns Object type with every unifiable property, optional where not shared
+ * 
+ * @example
+ * ```typescript
+ * type Result = CommonPartialPairs<{ id: 1; a: string }, { id: 2; b: number }>;
+ * // { id: number; a?: string; b?: number }
+ * ```
+ */
+export type CommonPartialPairs<T, U> = CommonPartialProps<[T, U]>
+
+/**
+ * Gets the indices of the types in a tuple that do not have a given key.
+ * 
+ * @template T Tuple of types
+ * @template K The property key to look for
+ * @template Seen Types checked so far (internal)
+ * @template Acc Indices collected so far (internal)
+ * @returns Tuple of zero-based indices, in input order
+ * 
+ * @example
+ * ```typescript
+ * type A = MissingIndices<[{ a: 1 }, { b: 2 }, { c: 3 }], 'a'>; // [1, 2]
+ * ```
+ */
+export type MissingIndices<T extends readonly unknown[], K, Seen extends unknown[] = [], Acc extends number[] = []> =
+    T extends readonly [infer First, ...infer Rest]
+    ? K extends keyof First
+    ? MissingIndices<Rest, K, [...Seen, First], Acc>
+    : MissingIndices<Rest, K, [...Seen, First], [...Acc, Seen["length"]]>
+    : Acc
+
+/**
+ * Explanation for a property that is included in the common result.
+ * 
+ * @template Type The unified property type
+ */
+export type IncludedProp<Type> = {
+    /** The property is part of the common result. */
+    status: "included"
+    /** The unified property type. */
+    type: Type
+}
+
+/**
+ * Explanation for a property that is excluded because some types lack it.
+ * 
+ * @template In Indices, or names for named variants, of the types that do not have the property
+ */
+export type MissingProp<In extends readonly unknown[]> = {
+    /** The property is not present in every type. */
+    status: "missing"
+    /** Indices, or names for named variants, of the types that do not have the property. */
+    in: In
+}
+
+/**
+ * Explanation for a property that is excluded because its types cannot be unified.
+ * 
+ * @template Types The property types, in input order or keyed by the names of named variants
+ */
+export type ConflictProp<Types extends object> = {
+    /** The property is present in every type, but its types cannot be unified. */
+    status: "conflict"
+    /** The property types, in input order or keyed by the names of named variants. */
+    types: Types
+}
+
+/**
+ * Explains, per key, why each property is included in or excluded from the common result.
+ * 
+ * Every key of any input type is listed with one of:
+ * - {@link IncludedProp}: the key survives, with its unified type
+ * - {@link MissingProp}: the key is absent from the types at the listed indices
+ * - {@link ConflictProp}: every type has the key, but its types cannot be unified
+ * 
+ * Uses the same per-property decisions ({@link ModeUnifyAll}) as the pair
+ * and tuple types, so the explanation always agrees with the actual result.
+ * Included types are the declared types, without the implicit `undefined`
+ * of optional properties.
+ * 
+ * @template T Array of types to explain
+ * @template Mode The unification mode to explain
+ * @returns Object type mapping every key to its explanation
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; lives: 9; }
+ * interface Dog { name: string; type: 'dog'; lives: 1; }
+ * interface Bird { name: string; type: 1; }
+ * 
+ * type Result = ExplainCommonProps<[Cat, Dog, Bird], 'upcast'>;
+ * // {
+ * //   name: { status: 'included'; type: string };
+ * //   type: { status: 'conflict'; types: ['cat', 'dog', 1] };
+ * //   lives: { status: 'missing'; in: [2] };
+ * // }
+ * ```
+ */
+export type ExplainCommonProps<T extends readonly unknown[], Mode extends CommonMode> = {
+    [K in AllKeys<T>]: MissingIndices<T, K> extends [number, ...number[]]
+    ? MissingProp<MissingIndices<T, K>>
+    : [ModeUnifyAll<PresentValues<T, K>, Mode>] extends [never]
+    ? ConflictProp<PresentValues<T, K>>
+    : IncludedProp<ModeUnifyAll<PresentValues<T, K>, Mode>[0]>
+}
+
+/**
+ * Gets the names of the variants that do not have a given key.
+ * 
+ * @template R Object whose values are the variants
+ * @template K The property key to look for
+ * @returns Union of the names of the variants without `K`
+ * 
+ * @example
+ * ```typescript
+ * type A = MissingLabels<{ cat: { a: 1 }; dog: { b: 2 }; bird: { c: 3 } }, 'a'>; // 'dog' | 'bird'
+ * ```
+ */
+export type MissingLabels<R extends object, K> = {
+    [Label in keyof R]-?: K extends keyof R[Label] ? never : Label
+}[keyof R]
+
+/**
+ * Explains, per key, why each property of named variants is included in or excluded from the common result.
+ * 
+ * The named form of {@link ExplainCommonProps}: {@link MissingProp} lists the
+ * names of the variants without the key, as an array since the names are
+ * not ordered, and {@link ConflictProp} keys the property types by name.
+ * 
+ * @template R Object whose values are the variants
+ * @template Mode The unification mode to explain
+ * @template Explained The explanation by index (internal)
+ * @returns Object type mapping every key to its explanation
+ * 
+ * @example
+ * ```typescript
+ * type Result = ExplainCommonPropsOf<{ cat: Cat; dog: Dog; bird: Bird }, 'upcast'>;
+ * // {
+ * //   name: { status: 'included'; type: string };
+ * //   type: { status: 'conflict'; types: { cat: 'cat'; dog: 'dog'; bird: 1 } };
+ * //   lives: { status: 'missing'; in: 'bird'[] };
+ * // }
+ * ```
+ */
+export type ExplainCommonPropsOf<R extends object, Mode extends CommonMode, Explained = ExplainCommonProps<VariantsOf<R>, Mode>> = {
+    [K in keyof Explained]: Explained[K] extends MissingProp<readonly unknown[]>
+    ? MissingProp<MissingLabels<R, K>[]>
+    : Explained[K] extends ConflictProp<object>
+    ? ConflictProp<{ [Label in keyof R]-?: Required<R[Label]>[K & keyof R[Label]] }>
+    : Explained[K]
+}
+
+/**
+ * Gets the keys that survive in the common result of a mode.
+ *
+ * The keys of {@link ReduceVariants}, so they always agree with the object
+ * type the mode produces. Useful as a constraint, e.g. `K extends CommonKeys<[A, B]>`.
+ *
+ * @template T Array of types to compare
+ * @template Mode The mode to use (default: `'strict'`)
+ * @returns Union of the keys of the common result
+ *
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; lives: 9; }
+ * interface Dog { name: string; type: 'dog'; good: true; }
+ *
+ * type A = CommonKeys<[Cat, Dog]>;           // 'name'
+ * type B = CommonKeys<[Cat, Dog], 'upcast'>; // 'name' | 'type'
+ * ```
+ */
+export type CommonKeys<T extends readonly unknown[], Mode extends PairMode = "strict"> =
+    keyof ReduceVariants<T, Mode>
+
+/**
+ * Gets the keys present in every type that the mode cannot unify.
+ *
+ * @template T Array of types to compare
+ * @template Mode The mode to use (default: `'strict'`)
+ * @returns Union of the shared keys missing from the common result
+ *
+ * @example
+ * ```typescript
+ * type A = ConflictingKeys<[Cat, Dog]>;           // 'type'
+ * type B = ConflictingKeys<[Cat, Dog], 'upcast'>; // never
+ * ```
+ */
+export type ConflictingKeys<T extends readonly unknown[], Mode extends PairMode = "strict"> =
+    Exclude<SharedKeys<T>, CommonKeys<T, Mode>>
+
+/**
+ * Gets the keys present in some types but not all of them.
+ *
+ * These are the keys {@link CommonPartialProps} makes optional.
+ *
+ * @template T Array of types to compare
+ * @returns Union of the keys missing from at least one type
+ *
+ * @example
+ * ```typescript
+ * type A = PartialKeys<[Cat, Dog]>; // 'lives' | 'good'
+ * ```
+ */
+export type PartialKeys<T extends readonly unknown[]> =
+    Exclude<AllKeys<VariantTuple<T>>, SharedKeys<T>>
+
+/**
+ * Gets the properties of one type beyond the common result of a mode.
+ *
+ * The complement of {@link CommonKeys}: keys the other types lack, and in
+ * strict mode also shared keys whose values differ. Modifiers are kept.
+ *
+ * @template T Array of types to compare
+ * @template Index Position of the type in `T`, in the order of {@link VariantTuple} for arrays that are not fixed tuples
+ * @template Mode The mode to use (default: `'strict'`)
+ * @returns Object type with the properties only that type contributes
+ *
+ * @example
+ * ```typescript
+ * interface Cat { name: string; type: 'cat'; meows: true; }
+ * interface Dog { name: string; type: 'dog'; barks: true; }
+ *
+ * type A = VariantOnlyProps<[Cat, Dog], 0>;           // { type: 'cat'; meows: true }
+ * type B = VariantOnlyProps<[Cat, Dog], 0, 'upcast'>; // { meows: true }
+ * ```
+ */
+export type VariantOnlyProps<T extends readonly unknown[], Index extends number, Mode extends PairMode = "strict"> =
+    VariantTuple<T> extends infer V extends readonly unknown[]
+    ? Simplify<Omit<V[Index], CommonKeys<T, Mode>>>
+    : never
+
+/**
+ * Gets the properties of every type beyond the common result of a mode.
+ *
+ * A tuple of types gives a tuple, one {@link VariantOnlyProps} per position.
+ * An object of named types gives an object with the same names.
+ *
+ * @template T Tuple of types, or an object whose values are the types
+ * @template Mode The mode to use (default: `'strict'`)
+ * @returns The variant-specific properties of each type
+ *
+ * @example
+ * ```typescript
+ * type A = DistinctProps<[Cat, Dog], 'upcast'>;             // [{ meows: true }, { barks: true }]
+ * type B = DistinctProps<{ Cat: Cat; Dog: Dog }, 'upcast'>; // { Cat: { meows: true }; Dog: { barks: true } }
+ * ```
+ */
+export type DistinctProps<T extends object, Mode extends PairMode = "strict"> =
+    T extends readonly unknown[]
+    ? { [I in keyof T]: Simplify<Omit<T[I], CommonKeys<T, Mode>>> }
+    : { [K in keyof T]: Simplify<Omit<T[K], CommonKeys<T[keyof T][], Mode>>> }
+
+/**
+ * Determines if a tuple of values are all literals with no value in common.
+ *
+ * Each value must satisfy {@link IsPrimitiveUpcastable}, so unions of literals
+ * are allowed, and no two values may overlap.
+ *
+ * @template V Tuple of value types
+ * @template Seen Union of the values checked so far (internal)
+ * @returns `true` if the values are disjoint literals, `false` otherwise
+ *
+ * @example
+ * ```typescript
+ * type A = IsDistinctLiterals<['cat', 'dog' | 'puppy']>; // true
+ * type B = IsDistinctLiterals<['cat', 'cat']>;           // false
+ * type C = IsDistinctLiterals<['cat', string]>;          // false
+ * ```
+ */
+export type IsDistinctLiterals<V extends readonly unknown[], Seen = never> =
+    V extends readonly [infer First, ...infer Rest]
+    ? IsPrimitiveUpcastable<First> extends true
+    ? [First & Seen] extends [never] ? IsDistinctLiterals<Rest, Seen | First> : false
+    : false
+    : true
+
+/**
+ * Gets the keys that tell the types of a tuple apart.
+ *
+ * A key is a discriminant if every type has it as a required property whose
+ * value is a literal, and no two types share a value. These are keys that
+ * {@link CommonStrictProps} excludes and {@link CommonUpcastProps} widens.
+ *
+ * @template T Array of types to compare
+ * @returns Union of the discriminant keys, or `never` if there are none
+ *
+ * @example
+ * ```typescript
+ * interface Cat { type: 'cat'; legs: 4; name: string; }
+ * interface Dog { type: 'dog'; legs: 4; name: string; }
+ *
+ * type A = Discriminants<[Cat, Dog]>; // 'type'
+ * // 'legs' is not: Cat and Dog share the value 4
+ * // 'name' is not: string is not a literal
+ * ```
+ */
+export type Discriminants<T extends readonly unknown[]> = {
+    [K in SharedKeys<T>]: K extends { [I in keyof T]: OptionalKeys<T[I]> }[number]
+    ? never
+    : IsDistinctLiterals<PresentValues<VariantTuple<T>, K>> extends true ? K : never
+}[SharedKeys<T>]
+
+/**
+ * The union of the types of a tuple, checked to be discriminated by a key.
+ *
+ * Using a key that is not in {@link Discriminants} is a compile error, so a
+ * variant that repeats a value or loses its literal type is caught where the
+ * union is declared.
+ *
+ * @template T Array of types
+ * @template K The discriminant key
+ * @returns The union of the types in `T`
+ *
+ * @example
+ * ```typescript
+ * type Animal = DiscriminatedBy<[Cat, Dog], 'type'>; // Cat | Dog
+ * type Wrong = DiscriminatedBy<[Cat, Dog], 'legs'>;  // error: 'legs' does not satisfy the constraint 'type'
+ * ```
+ */
+export type DiscriminatedBy<T extends readonly unknown[], K extends Discriminants<T>> =
+    [K] extends [never] ? never : T[number]
+
+/**
+ * Gets, for each common key, the original value type from every type of a tuple.
+ *
+ * Keeps what the common result widens or merges away. The keys are
+ * {@link CommonKeys} of the mode, and the values are collected with
+ * {@link PresentValues}, so optional properties contribute their declared type.
+ * Every key is required, even if it is optional in the common result.
+ *
+ * @template T Array of types to compare
+ * @template Mode The mode that decides which keys are common (default: `'upcast'`)
+ * @returns Object type mapping each common key to a tuple of value types, in input order
+ *
+ * @example
+ * ```typescript
+ * interface Low { name: string; priority: 1; }
+ * interface Mid { name: string; priority: 2; }
+ * interface High { name: string; priority: 3; }
+ *
+ * type A = PropVariants<[Low, Mid, High]>;
+ * // { name: [string, string, string]; priority: [1, 2, 3] }
+ * ```
+ */
+export type PropVariants<T extends readonly unknown[], Mode extends PairMode = "upcast"> = {
+    -readonly [K in CommonKeys<T, Mode>]-?: PresentValues<VariantTuple<T>, K>
+}
+
+/**
+ * Gets, for each common key, the original value type from every named type.
+ *
+ * The named form of {@link PropVariants}: each value is an object keyed by
+ * the names of the types instead of a tuple.
+ *
+ * @template T Object whose values are the types to compare
+ * @template Mode The mode that decides which keys are common (default: `'upcast'`)
+ * @returns Object type mapping each common key to the value type of each named type
+ *
+ * @example
+ * ```typescript
+ * type A = LabeledVariants<{ cat: Cat; dog: Dog }>;
+ * // { name: { cat: string; dog: string }; type: { cat: 'cat'; dog: 'dog' } }
+ * ```
+ */
+export type LabeledVariants<T extends object, Mode extends PairMode = "upcast"> = {
+    -readonly [K in CommonKeys<T[keyof T][], Mode>]-?: {
+        [Label in keyof T]: K extends keyof T[Label] ? Required<T[Label]>[K] : never
+    }
+}
+
+/**
+ * A branded type that stands in for a common result that could not be produced.
+ * 
+ * No ordinary value is assignable to it, so using the result reports the
+ * message in the compile error.
+ * 
+ * @template Message Why the common result could not be produced
+ */
+export type CommonPropsError<Message extends string> = {
+    /** Why the common result could not be produced. */
+    readonly commonPropsError: Message
+}
+
+/**
+ * Finds common properties, requiring that some keys survive.
+ * 
+ * Turns a silently lost key into a compile error: when any of the required
+ * keys is missing from a variant or cannot be unified, the result is a
+ * {@link CommonPropsError} naming each lost key and the offending variant index.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Keys The keys the common result must have
+ * @template Mode The unification mode (default: `'strict'`)
+ * @returns The common result of the mode, or a {@link CommonPropsError}
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { id: string; name: string; type: 'cat'; }
+ * interface Dog { id: string; type: 'dog'; }
+ * 
+ * type A = RequireCommon<[Cat, Dog], 'id'>;            // { id: string }
+ * type B = RequireCommon<[Cat, Dog], 'id' | 'name'>;   // CommonPropsError<'Key "name" is missing from variant 1'>
+ * type C = RequireCommon<[Cat, Dog], 'type'>;          // CommonPropsError<'Key "type" cannot be unified in strict mode at variant 1'>
+ * type D = RequireCommon<[Cat, Dog], 'type', 'upcast'>; // { id: string; type: string }
+ * ```
+ */
+export type RequireCommon<T extends readonly unknown[], Keys extends PropertyKey, Mode extends CommonMode = "strict"> =
+    [Exclude<Keys, CommonKeys<T, Mode>>] extends [never]
+    ? ReduceVariants<T, Mode>
+    : CommonPropsError<Join<LostKeyMessages<VariantTuple<T>, UnionToTuple<Exclude<Keys, CommonKeys<T, Mode>>>, Mode>, "; ">>
+
+/**
+ * Finds common properties, failing instead of producing `{}`.
+ * 
+ * An empty common result accepts almost any value. This opts in to a
+ * {@link CommonPropsError} instead, so the mismatch surfaces where the result is used.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Options The {@link CommonPropsOptions} (default: `{}`)
+ * @returns The {@link CommonProps} result, or a {@link CommonPropsError} if it has no keys
+ * 
+ * @example
+ * ```typescript
+ * type A = NonEmptyCommon<[{ a: 1 }, { a: 1 }]>; // { a: 1 }
+ * type B = NonEmptyCommon<[{ a: 1 }, { b: 1 }]>; // CommonPropsError<'No common properties in strict mode'>
+ * ```
+ */
+export type NonEmptyCommon<T extends readonly unknown[], Options extends CommonPropsOptions = {}> =
+    [CommonProps<T, Options>] extends [never]
+    ? never
+    : [keyof CommonProps<T, Options>] extends [never]
+    ? CommonPropsError<`No common properties in ${OptionOr<Options, "mode", "strict">} mode`>
+    : CommonProps<T, Options>
+
+/**
+ * Default maximum nesting depth used by the deep common-props utilities.
+ * 
+ * Limits how many levels of nested objects are compared so that recursive
+ * types (e.g. a tree node referencing itself) terminate.
+ */
+export type DefaultDepth = 5
+
+/**
+ * Decrements a non-negative numeric literal type by one.
+ * 
+ * Used to count down the remaining depth in the deep common-props utilities.
+ * Returns `0` for `0` and for the non-literal `number` type.
+ * 
+ * @template D The depth to decrement
+ * @returns `D - 1`, clamped at `0`
+ * 
+ * @example
+ * ```typescript
+ * type A = DecrementDepth<3>; // 2
+ * type B = DecrementDepth<0>; // 0
+ * ```
+ */
+export type DecrementDepth<D extends number, Count extends unknown[] = []> =
+    D extends 0 ? 0 :
+    [...Count, unknown]["length"] extends D ? Count["length"] :
+    DecrementDepth<D, [...Count, unknown]>
+
+/**
+ * Determines if a type is a plain object that deep utilities should recurse into.
+ * 
+ * Returns `false` for primitives, arrays, tuples, functions, built-in objects
+ * such as `Date` and `Map` ({@link BuiltInObject}) and unions that include
+ * any of those (e.g. `{ a: 1 } | undefined`).
+ * 
+ * @template T The type to check
+ * @returns `true` if the type is a plain object type, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = IsPlainObject<{ id: string }>;   // true
+ * type B = IsPlainObject<string[]>;         // false
+ * type C = IsPlainObject<() => void>;       // false
+ * type D = IsPlainObject<{ id: string } | null>; // false
+ * type E = IsPlainObject<Date>;             // false
+ * ```
+ */
+export type IsPlainObject<T> =
+    [T] extends [object]
+    ? [T] extends [readonly unknown[]] ? false
+    : [T] extends [(...args: never[]) => unknown] ? false
+    : [T] extends [BuiltInObject] ? false
+    : true
+    : false
+
+/**
+ * Unifies two property value types using strict matching, recursing into nested objects.
+ * 
+ * Identical types are kept as-is. When both types are plain objects that are
+ * not identical, the result is their {@link CommonDeepStrictPairs} rather than
+ * an exclusion. Arrays of such objects are unified with {@link ArrayUnify},
+ * and built-in containers with {@link ContainerUnify}, using these rules for
+ * the elements. Nullable values such as `{ x: 1 } | null` are unified on
+ * their non-nullish parts when both sides have the same nullish members.
+ * Once `Depth` reaches `0` only the flat {@link StrictUnify} rules apply.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Depth Remaining nesting depth
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = DeepStrictUnify<{ kind: 'a'; id: string }, { kind: 'b'; id: string }, 5>;
+ * // [{ id: string }]
+ * ```
+ */
+export type DeepStrictUnify<T, U, Depth extends number> =
+    [StrictUnify<T, U>] extends [never]
+    ? Depth extends 0 ? never
+    : [Extract<T, null | undefined>] extends [never]
+    ? DeepStrictObjectUnify<T, U, Depth>
+    : IsIdentical<Extract<T, null | undefined>, Extract<U, null | undefined>> extends true
+    ? DeepStrictObjectUnify<NonNullable<T>, NonNullable<U>, Depth> extends [infer Unified]
+    ? [Unified | Extract<T, null | undefined>]
+    : never
+    : never
+    : StrictUnify<T, U>
+
+/**
+ * Unifies two property value types with upcasting, recursing into nested objects.
+ * 
+ * The flat {@link UpcastUnify} rules are tried first. When they fail and both
+ * types are plain objects, the result is their {@link CommonDeepUpcastPairs}
+ * rather than an exclusion. Arrays of such objects are unified with
+ * {@link ArrayUnify}, and built-in containers with {@link ContainerUnify},
+ * using these rules for the elements. Nullable values such as
+ * `{ x: 1 } | null` are unified on their non-nullish parts when both sides
+ * have the same nullish members. Once `Depth` reaches `0` only the flat
+ * rules apply.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Depth Remaining nesting depth
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = DeepUpcastUnify<{ kind: 'a'; id: string }, { kind: 'b'; id: string }, 5>;
+ * // [{ kind: string; id: string }]
+ * ```
+ */
+export type DeepUpcastUnify<T, U, Depth extends number> =
+    [UpcastUnify<T, U>] extends [never]
+    ? Depth extends 0 ? never
+    : [Extract<T, null | undefined>] extends [never]
+    ? DeepUpcastObjectUnify<T, U, Depth>
+    : IsIdentical<Extract<T, null | undefined>, Extract<U, null | undefined>> extends true
+    ? DeepUpcastObjectUnify<NonNullable<T>, NonNullable<U>, Depth> extends [infer Unified]
+    ? [Unified | Extract<T, null | undefined>]
+    : never
+    : never
+    : UpcastUnify<T, U>
+
+/**
+ * Finds common properties between two types using strict matching, recursing into nested objects.
+ * 
+ * Behaves like {@link CommonStrictPairs}, except that a property whose values
+ * are two different plain objects is kept and typed as the strictly common
+ * properties of those objects, recursively, up to `Depth` levels.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @template Depth Maximum nesting depth to recurse into (default: {@link DefaultDepth})
+ * @returns Object type with strictly common properties at every nesting level
+ * 
+ * @example
+ * ```typescript
+ * interface A { name: string; meta: { kind: 'a'; id: string }; }
+ * interface B { name: string; meta: { kind: 'b'; id: string }; }
+ * 
+ * type Result = CommonDeepStrictPairs<A, B>;
+ * // { name: string; meta: { id: string } }
+ * ```
+ */
+export type CommonDeepStrictPairs<T, U, Depth extends number = DefaultDepth> = WithModifiers<{
+    [K in keyof T & keyof U as [DeepStrictUnify<Required<T>[K], Required<U>[K], Depth>] extends [never] ? never : K]:
+    DeepStrictUnify<Required<T>[K], Required<U>[K], Depth>[0]
+}, T, U>
+
+/**
+ * Finds common properties between two types with upcasting, recursing into nested objects.
+ * 
+ * Behaves like {@link CommonUpcastPairs}, except that a property whose values
+ * are two different plain objects is kept and typed as the upcast common
+ * properties of those objects, recursively, up to `Depth` levels.
+ * 
+ * @template T First type
+ * @template U Second type
+ * @template Depth Maximum nesting depth to recurse into (default: {@link DefaultDepth})
+ * @returns Object type with upcast common properties at every nesting level
+ * 
+ * @example
+ * ```typescript
+ * interface A { name: string; meta: { kind: 'a'; id: string }; }
+ * interface B { name: string; meta: { kind: 'b'; id: string }; }
+ * 
+ * type Result = CommonDeepUpcastPairs<A, B>;
+ * // { name: string; meta: { kind: string; id: string } }
+ * ```
+ */
+export type CommonDeepUpcastPairs<T, U, Depth extends number = DefaultDepth> = WithModifiers<{
+    [K in keyof T & keyof U as [DeepUpcastUnify<Required<T>[K], Required<U>[K], Depth>] extends [never] ? never : K]:
+    DeepUpcastUnify<Required<T>[K], Required<U>[K], Depth>[0]
+}, T, U>
+
+/**
+ * Finds common properties across multiple types using strict matching, recursing into nested objects.
+ * 
+ * The deep counterpart of {@link CommonStrictProps}: nested objects that differ
+ * between types are reduced to their strictly common properties instead of
+ * being excluded.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Depth Maximum nesting depth to recurse into (default: {@link DefaultDepth})
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with strictly common properties at every nesting level
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; meta: { kind: 'cat'; id: string; lives: 9 }; }
+ * interface Dog { name: string; meta: { kind: 'dog'; id: string }; }
+ * 
+ * type Result = CommonDeepStrictProps<[Cat, Dog]>;
+ * // { name: string; meta: { id: string } }
+ * ```
+ */
+export type CommonDeepStrictProps<T extends readonly unknown[], Depth extends number = DefaultDepth, Empty = {}> = CommonProps<T, {
+    /** Compare values strictly. */
+    mode: "strict"
+    /** Recurse into nested objects. */
+    depth: Depth
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
+
+/**
+ * Finds common properties across multiple types with upcasting, recursing into nested objects.
+ * 
+ * The deep counterpart of {@link CommonUpcastProps}: nested objects that differ
+ * between types are reduced to their upcast common properties instead of
+ * being excluded.
+ * 
+ * @template T Array of types to find common properties for
+ * @template Depth Maximum nesting depth to recurse into (default: {@link DefaultDepth})
+ * @template Empty Default type for empty arrays (default: `{}`)
+ * @returns Object type with upcast common properties at every nesting level
+ * 
+ * @example
+ * ```typescript
+ * interface Cat { name: string; meta: { kind: 'cat'; id: string; lives: 9 }; }
+ * interface Dog { name: string; meta: { kind: 'dog'; id: string }; }
+ * 
+ * type Result = CommonDeepUpcastProps<[Cat, Dog]>;
+ * // { name: string; meta: { kind: string; id: string } }
+ * ```
+ */
+export type CommonDeepUpcastProps<T extends readonly unknown[], Depth extends number = DefaultDepth, Empty = {}> = CommonProps<T, {
+    /** Upcast literals to their primitives. */
+    mode: "upcast"
+    /** Recurse into nested objects. */
+    depth: Depth
+    /** The result for an empty tuple. */
+    empty: Empty
+}>
@@ -0,0 +1,652 @@
+/**
+ * Type utilities that the public types are built from.
+ *
+ * The package entry does not export this module, so these types are not part
+ * of the API and may change in any release. Declarations that use them still
+ * resolve.
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import type {
+    ArrayUnify, CommonDeepStrictPairs, CommonDeepUpcastPairs, CommonMode, CommonPropsOptions, ContainerUnify,
+    DecrementDepth, IsIdentical, IsPlainObject, LooseOptions, MissingIndices, ModePairs, ModeUnify, ModeUnifyAll,
+    PairMode, PresentValues, RegisteredUpcast, UpcastUnify, WidenPrimitive,
+} from "./index.ts";
+
+/**
+ * Unifies two non-nullish property value types that differ, using the deep strict rules.
+ * 
+ * Plain objects are reduced to their {@link CommonDeepStrictPairs}, arrays are
+ * unified with {@link ArrayUnify} and built-in containers with
+ * {@link ContainerUnify}. Used by {@link DeepStrictUnify} on the values
+ * themselves, or on their non-nullish parts when both are nullable. Nested
+ * results are flattened so they display as object literal types rather than
+ * as `Simplify<...>` of the modifier groups.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Depth Remaining nesting depth
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = DeepStrictObjectUnify<{ kind: 'a'; id: string }, { kind: 'b'; id: string }, 5>;
+ * // [{ id: string }]
+ * ```
+ */
+export type DeepStrictObjectUnify<T, U, Depth extends number> =
+    IsPlainObject<T> extends true
+    ? IsPlainObject<U> extends true
+    ? CommonDeepStrictPairs<T, U, DecrementDepth<Depth>> extends infer Pairs
+    ? [{ [K in keyof Pairs]: Pairs[K] }]
+    : never
+    : never
+    : [T] extends [readonly unknown[]]
+    ? [U] extends [readonly unknown[]]
+    ? ArrayUnify<T, U, "deepStrict", Depth>
+    : never
+    : ContainerUnify<T, U, "deepStrict", Depth>
+
+/**
+ * Unifies two non-nullish property value types that differ, using the deep upcast rules.
+ * 
+ * Plain objects are reduced to their {@link CommonDeepUpcastPairs}, arrays are
+ * unified with {@link ArrayUnify} and built-in containers with
+ * {@link ContainerUnify}. Used by {@link DeepUpcastUnify} on the values
+ * themselves, or on their non-nullish parts when both are nullable. Nested
+ * results are flattened so they display as object literal types rather than
+ * as `Simplify<...>` of the modifier groups.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @template Depth Remaining nesting depth
+ * @returns The unified type wrapped in a tuple, or `never` if the types cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = DeepUpcastObjectUnify<{ kind: 'a'; id: string }, { kind: 'b'; id: string }, 5>;
+ * // [{ kind: string; id: string }]
+ * ```
+ */
+export type DeepUpcastObjectUnify<T, U, Depth extends number> =
+    IsPlainObject<T> extends true
+    ? IsPlainObject<U> extends true
+    ? CommonDeepUpcastPairs<T, U, DecrementDepth<Depth>> extends infer Pairs
+    ? [{ [K in keyof Pairs]: Pairs[K] }]
+    : never
+    : never
+    : [T] extends [readonly unknown[]]
+    ? [U] extends [readonly unknown[]]
+    ? ArrayUnify<T, U, "deepUpcast", Depth>
+    : never
+    : ContainerUnify<T, U, "deepUpcast", Depth>
+
+/**
+ * Flattens an intersection of object types into a single object type.
+ * 
+ * Uses a homomorphic mapped type, so `readonly` and `?` modifiers of the
+ * intersected members are preserved.
+ * 
+ * @template T The type to flatten
+ * @returns An equivalent single object type
+ * 
+ * @example
+ * ```typescript
+ * type A = Simplify<{ readonly a: 1 } & { b?: 2 }>; // { readonly a: 1; b?: 2 }
+ * ```
+ */
+export type Simplify<T> = { [K in keyof T]: T[K] }
+
+/**
+ * Determines if a type is made only of string or numeric enum members.
+ * 
+ * `null` and `undefined` members are ignored. A string enum member is told
+ * apart from a plain string literal because its string value is not
+ * assignable back to it; a numeric enum member because `number` is.
+ * 
+ * @template T The type to check
+ * @returns `true` if every non-nullish member is an enum member, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * enum Color { Red = 'r', Blue = 'b' }
+ * 
+ * type A = IsEnumMember<Color.Red>;        // true
+ * type B = IsEnumMember<Color | null>;     // true
+ * type C = IsEnumMember<'r'>;              // false
+ * type D = IsEnumMember<Color.Red | 'x'>;  // false
+ * ```
+ */
+export type IsEnumMember<T> =
+    [Exclude<T, null | undefined>] extends [never] ? false :
+    false extends (
+        Exclude<T, null | undefined> extends infer V
+        ? V extends string ? (`${V}` extends V ? false : true)
+        : V extends number ? (number extends V ? (IsIdentical<V, number> extends true ? false : true) : false)
+        : false
+        : never
+    ) ? false : true
+
+/**
+ * Unifies two enum member types of the same primitive kind into their union.
+ * 
+ * Members of the same enum therefore widen to that enum rather than to its
+ * primitive: `Color.Red` and `Color.Blue` give `Color` when those are all of
+ * its members, and `Color.Red | Color.Blue`, which is assignable to `Color`,
+ * otherwise. TypeScript does not expose which enum a member belongs to, so
+ * members of different enums are unified the same way. Enums with a rule in
+ * the {@link UpcastRegistry} are left to the registry.
+ * 
+ * @template T First value type
+ * @template U Second value type
+ * @returns The union wrapped in a tuple, or `never` if the types are not enum members of one kind
+ * 
+ * @example
+ * ```typescript
+ * enum Color { Red = 'r', Blue = 'b' }
+ * enum Level { Low, High }
+ * 
+ * type A = EnumUnify<Color.Red, Color.Blue>; // [Color]
+ * type B = EnumUnify<Color.Red, Level.Low>;  // never
+ * type C = EnumUnify<Color.Red, 'x'>;        // never
+ * ```
+ */
+export type EnumUnify<T, U> =
+    IsEnumMember<T> extends true
+    ? IsEnumMember<U> extends true
+    ? [RegisteredUpcast<Exclude<T, null | undefined>> | RegisteredUpcast<Exclude<U, null | undefined>>] extends [never]
+    ? [Exclude<T | U, null | undefined>] extends [string] ? [T | U]
+    : [Exclude<T | U, null | undefined>] extends [number] ? [T | U]
+    : never
+    : never
+    : never
+    : never
+
+/**
+ * Determines if a type is a function type.
+ * 
+ * @template T The type to check
+ * @returns `true` if the type is callable, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = IsFunction<(e: Event) => void>; // true
+ * type B = IsFunction<{ a: 1 }>;           // false
+ * ```
+ */
+export type IsFunction<T> = [T] extends [(...args: never[]) => unknown] ? true : false
+
+/**
+ * Gets the call signatures of a function type, in declaration order.
+ * 
+ * Supports up to four overloads.
+ * 
+ * @template F The function type
+ * @returns Tuple of single-signature function types
+ * 
+ * @example
+ * ```typescript
+ * declare function parse(input: string): number;
+ * declare function parse(input: string, radix: number): number;
+ * 
+ * type A = FunctionSignatures<typeof parse>;
+ * // [(input: string) => number, (input: string, radix: number) => number]
+ * ```
+ */
+export type FunctionSignatures<F> =
+    F extends {
+        (...args: infer A1): infer R1
+        (...args: infer A2): infer R2
+        (...args: infer A3): infer R3
+        (...args: infer A4): infer R4
+    }
+    // Functions with fewer overloads repeat their first signature to fill the pattern.
+    ? DistinctAdjacent<[(...args: A1) => R1, (...args: A2) => R2, (...args: A3) => R3, (...args: A4) => R4]>
+    : never
+
+/**
+ * Removes adjacent duplicates from a tuple.
+ * 
+ * @template T The tuple to deduplicate
+ * @returns `T` without elements identical to the element that follows them
+ * 
+ * @example
+ * ```typescript
+ * type A = DistinctAdjacent<[1, 1, 2, 2, 1]>; // [1, 2, 1]
+ * ```
+ */
+export type DistinctAdjacent<T extends readonly unknown[]> =
+    T extends readonly [infer First, infer Second, ...infer Rest]
+    ? IsIdentical<First, Second> extends true
+    ? DistinctAdjacent<[Second, ...Rest]>
+    : [First, ...DistinctAdjacent<[Second, ...Rest]>]
+    : T
+
+/**
+ * Counts the leading required elements of a tuple.
+ * 
+ * @template T The tuple to count
+ * @returns A tuple of `unknown` with one element per required element of `T`
+ * 
+ * @example
+ * ```typescript
+ * type A = RequiredLength<[a: string, b?: number]>["length"]; // 1
+ * ```
+ */
+export type RequiredLength<T extends readonly unknown[], Count extends unknown[] = []> =
+    T extends readonly [unknown, ...infer Rest]
+    ? RequiredLength<Rest, [...Count, unknown]>
+    : Count
+
+/**
+ * Intersects two parameter lists position by position.
+ * 
+ * A position present in only one list keeps that list's type. A position is
+ * required if it is required in either list, so the result can be passed to
+ * both functions. Parameter lists with rest elements are not supported.
+ * 
+ * @template A First parameter list
+ * @template B Second parameter list
+ * @returns The intersected parameter list, or `never` if either list has a rest element
+ * 
+ * @example
+ * ```typescript
+ * type A = IntersectParameters<[e: Click], [e: Key, extra?: string]>;
+ * // [Click & Key, string?]
+ * ```
+ */
+export type IntersectParameters<A extends readonly unknown[], B extends readonly unknown[]> =
+    number extends A["length"] ? never :
+    number extends B["length"] ? never :
+    // Map over the list that is both longer and requires more, keeping its labels and modifiers.
+    CoversParameters<A, B> extends true ? { [I in keyof A]: I extends keyof B ? A[I] & Required<B>[I] : A[I] } :
+    CoversParameters<B, A> extends true ? { [I in keyof B]: I extends keyof A ? Required<A>[I] & B[I] : B[I] } :
+    OptionalTail<
+        IntersectPositions<Required<A>, Required<B>>,
+        RequiredLength<A> extends [...RequiredLength<B>, ...unknown[]] ? RequiredLength<A> : RequiredLength<B>
+    >
+
+/**
+ * Determines if a parameter list is at least as long as another and
+ * requires at least as many parameters.
+ * 
+ * @template A The parameter list to check
+ * @template B The parameter list to compare against
+ * @returns `true` if `A` covers `B`, `false` otherwise
+ * 
+ * @example
+ * ```typescript
+ * type A = CoversParameters<[a: string, b?: number], [a: string]>; // true
+ * type B = CoversParameters<[a: string, b?: number], [a: string, b: number]>; // false
+ * ```
+ */
+export type CoversParameters<A extends readonly unknown[], B extends readonly unknown[]> =
+    Required<A> extends readonly [...{ [I in keyof B]-?: unknown }, ...unknown[]]
+    ? RequiredLength<A> extends [...RequiredLength<B>, ...unknown[]] ? true : false
+    : false
+
+/**
+ * Intersects two fixed-length tuples position by position.
+ * 
+ * @template A First tuple
+ * @template B Second tuple
+ * @returns Tuple as long as the longer input, intersecting shared positions
+ * 
+ * @example
+ * ```typescript
+ * type A = IntersectPositions<[{ a: 1 }], [{ b: 2 }, string]>; // [{ a: 1 } & { b: 2 }, string]
+ * ```
+ */
+export type IntersectPositions<A extends readonly unknown[], B extends readonly unknown[]> =
+    A extends readonly [infer AFirst, ...infer ARest]
+    ? B extends readonly [infer BFirst, ...infer BRest]
+    ? [AFirst & BFirst, ...IntersectPositions<ARest, BRest>]
+    : [...A]
+    : [...B]
+
+/**
+ * Makes the elements of a tuple after the first `N` optional.
+ * 
+ * @template T The tuple to adjust
+ * @template N A tuple whose length is the number of elements to keep required
+ * @returns `T` with every element past `N` marked optional
+ * 
+ * @example
+ * ```typescript
+ * type A = OptionalTail<[string, number, boolean], [unknown]>; // [string, number?, boolean?]
+ * ```
+ */
+export type OptionalTail<T extends readonly unknown[], N extends readonly unknown[], Head extends unknown[] = []> =
+    N extends readonly [unknown, ...infer NRest]
+    ? T extends readonly [infer First, ...infer Rest]
+    ? OptionalTail<Rest, NRest, [...Head, First]>
+    : Head
+    : [...Head, ...Partial<T>]
+
+/**
+ * Unifies two single call signatures into one both can be used as.
+ * 
+ * Parameters are intersected with {@link IntersectParameters} (contravariant)
+ * and return types are upcast with {@link UpcastUnify}, falling back to the
+ * union of both with every member widened by {@link WidenPrimitive}
+ * (covariant). Widening the fallback the same way at every step keeps the
+ * result independent of the order the functions are unified in.
+ * 
+ * @template T First signature
+ * @template U Second signature
+ * @returns The unified signature wrapped in a tuple, or `never` if the parameters cannot be intersected
+ * 
+ * @example
+ * ```typescript
+ * type A = SignatureUnify<(e: Click) => 'ok', (e: Key) => 'err'>;
+ * // [(e: Click & Key) => string]
+ * ```
+ */
+export type SignatureUnify<T, U> =
+    T extends (...args: infer TArgs) => infer TReturn
+    ? U extends (...args: infer UArgs) => infer UReturn
+    ? [IntersectParameters<TArgs, UArgs>] extends [never]
+    ? never
+    : [(...args: IntersectParameters<TArgs, UArgs>) => (
+        [UpcastUnify<TReturn, UReturn>] extends [never]
+        ? WidenPrimitive<TReturn> | WidenPrimitive<UReturn>
+        : UpcastUnify<TReturn, UReturn>[0]
+    )]
+    : never
+    : never
+
+/**
+ * Unifies each signature of a list with each signature of another.
+ * 
+ * Signatures are paired by position when both lists have the same length,
+ * and every signature with every other otherwise. Pairs that cannot be
+ * unified are skipped.
+ * 
+ * @template A First list of signatures
+ * @template B Second list of signatures
+ * @returns Tuple of unified signatures
+ */
+export type SignaturePairs<A extends readonly unknown[], B extends readonly unknown[]> =
+    A["length"] extends B["length"]
+    ? ZipSignatures<A, B>
+    : A extends readonly [infer AFirst, ...infer ARest]
+    ? [...ZipSignatures<{ [I in keyof B]: AFirst }, B>, ...SignaturePairs<ARest, B>]
+    : []
+
+/**
+ * Unifies two equally long lists of signatures position by position.
+ * 
+ * @template A First list of signatures
+ * @template B Second list of signatures
+ * @returns Tuple of unified signatures, skipping pairs that cannot be unified
+ */
+export type ZipSignatures<A extends readonly unknown[], B extends readonly unknown[]> =
+    A extends readonly [infer AFirst, ...infer ARest]
+    ? B extends readonly [infer BFirst, ...infer BRest]
+    ? [SignatureUnify<AFirst, BFirst>] extends [never]
+    ? ZipSignatures<ARest, BRest>
+    : [SignatureUnify<AFirst, BFirst>[0], ...ZipSignatures<ARest, BRest>]
+    : []
+    : []
+
+/**
+ * Intersects every element of a tuple, in order.
+ * 
+ * @template T The tuple to intersect
+ * @returns The intersection of the elements, or `unknown` for an empty tuple
+ * 
+ * @example
+ * ```typescript
+ * type A = IntersectAll<[{ a: 1 }, { b: 2 }]>; // { a: 1 } & { b: 2 }
+ * ```
+ */
+export type IntersectAll<T extends readonly unknown[]> =
+    T extends readonly [infer First, ...infer Rest] ? First & IntersectAll<Rest> : unknown
+
+/**
+ * Filters a tuple of signatures down to those with no `never` parameters.
+ * 
+ * @template T Tuple of signatures
+ * @returns The signatures that can be called
+ * 
+ * @example
+ * ```typescript
+ * type A = CallableSignatures<[(a: string) => 1, (a: never) => 2]>; // [(a: string) => 1]
+ * ```
+ */
+export type CallableSignatures<T extends readonly unknown[]> =
+    T extends readonly [infer First, ...infer Rest]
+    ? First extends (...args: infer Args) => unknown
+    ? true extends { [I in keyof Args]: [Args[I]] extends [never] ? true : false }[number]
+    ? CallableSignatures<Rest>
+    : [First, ...CallableSignatures<Rest>]
+    : CallableSignatures<Rest>
+    : []
+
+/**
+ * Converts a union to an intersection of its members.
+ * 
+ * @template U The union to convert
+ * @returns Intersection of every member of `U`
+ * 
+ * @example
+ * ```typescript
+ * type A = UnionToIntersection<{ a: 1 } | { b: 2 }>; // { a: 1 } & { b: 2 }
+ * ```
+ */
+export type UnionToIntersection<U> =
+    (U extends unknown ? (value: U) => void : never) extends (value: infer I) => void ? I : never
+
+/**
+ * Converts a union to a tuple of its members.
+ * 
+ * The order of the members follows the compiler's internal union order, so
+ * it should only be relied on where the order does not matter, as in strict
+ * mode. Upcast mode also gives the same result in any order, except for a
+ * property typed with a union that mixes primitive kinds, see
+ * {@link CommonUpcastOf}.
+ * 
+ * @template U The union to convert
+ * @template Acc Members converted so far (internal)
+ * @returns Tuple with one element per member of `U`, or `[]` for `never`
+ * 
+ * @example
+ * ```typescript
+ * type A = UnionToTuple<Cat | Dog>; // [Cat, Dog]
+ * ```
+ */
+export type UnionToTuple<U, Acc extends unknown[] = [], Last = LastOfUnion<U>> =
+    [U] extends [never] ? Acc : UnionToTuple<Exclude<U, Last>, [Last, ...Acc]>
+
+/**
+ * Gets one member of a union.
+ * 
+ * Overloads infer from their last signature, so intersecting one function
+ * per member picks out the last member.
+ * 
+ * @template U The union to pick from
+ * @returns The last member of `U`
+ */
+export type LastOfUnion<U> =
+    UnionToIntersection<U extends unknown ? (value: U) => void : never> extends (value: infer L) => void ? L : never
+
+/**
+ * Combines each adjacent pair of types in a tuple, halving its length.
+ * 
+ * An odd type at the end is carried over as it is.
+ * 
+ * @template T Tuple of types
+ * @template Mode The mode to combine pairs with
+ * @template Options Nullish options for the upcast and loose modes
+ * @template Depth Maximum nesting depth for the deep modes
+ * @template Acc Pairs combined so far (internal)
+ * @returns Tuple of combined pairs
+ * 
+ * @example
+ * ```typescript
+ * type A = PairAdjacent<[A, B, C], "strict", {}, DefaultDepth>;
+ * // [CommonStrictPairs<A, B>, C]
+ * ```
+ */
+export type PairAdjacent<T extends readonly unknown[], Mode extends PairMode, Options extends LooseOptions, Depth extends number, Acc extends unknown[] = []> =
+    T extends readonly [infer First, infer Second, ...infer Rest]
+    ? PairAdjacent<Rest, Mode, Options, Depth, [...Acc, ModePairs<First, Second, Mode, Options, Depth>]>
+    : [...Acc, ...T]
+
+/**
+ * Unifies each adjacent pair of value types in a tuple, halving its length.
+ * 
+ * The value counterpart of {@link PairAdjacent}. An odd value at the end is
+ * carried over as it is.
+ * 
+ * @template V Tuple of value types
+ * @template Mode The unification mode
+ * @template Options Nullish options for the upcast and loose modes
+ * @template Acc Values unified so far (internal)
+ * @returns Tuple of unified pairs, or `never` if any pair cannot be unified
+ * 
+ * @example
+ * ```typescript
+ * type A = UnifyAdjacent<['cat', 'dog', 1], 'upcast', {}>; // [string, 1]
+ * ```
+ */
+export type UnifyAdjacent<V extends readonly unknown[], Mode extends CommonMode, Options extends LooseOptions, Acc extends unknown[] = []> =
+    V extends readonly [infer First, infer Second, ...infer Rest]
+    ? [ModeUnify<First, Second, Mode, Options>] extends [never]
+    ? never
+    : UnifyAdjacent<Rest, Mode, Options, [...Acc, ModeUnify<First, Second, Mode, Options>[0]]>
+    : [...Acc, ...V]
+
+/**
+ * Reads an option, falling back to a default if it is not set.
+ * 
+ * @template Options The options
+ * @template K Name of the option
+ * @template Default The value to use if the option is missing or `undefined`
+ * @returns The value of the option, or `Default`
+ * 
+ * @example
+ * ```typescript
+ * type A = OptionOr<{ mode: 'upcast' }, 'mode', 'strict'>; // 'upcast'
+ * type B = OptionOr<{}, 'mode', 'strict'>;                 // 'strict'
+ * ```
+ */
+export type OptionOr<Options, K extends PropertyKey, Default> =
+    K extends keyof Options
+    ? [Exclude<Options[K], undefined>] extends [never] ? Default : Exclude<Options[K], undefined>
+    : Default
+
+/**
+ * Gets the `empty` option of {@link CommonProps}.
+ * 
+ * Unlike {@link OptionOr}, `never` is kept, as it is a useful result for an empty tuple.
+ * 
+ * @template Options The options
+ * @returns The `empty` option, or `{}` if it is not set
+ */
+export type EmptyOption<Options> = "empty" extends keyof Options ? Options["empty" & keyof Options] : {}
+
+/**
+ * Gets the loose mode options for the `nullable` option of {@link CommonProps}.
+ * 
+ * @template Nullable The `nullable` option
+ * @returns Both loose options set to `true` or `false` for a boolean, or the options as given
+ */
+export type NullableOptions<Nullable> =
+    Nullable extends LooseOptions ? Nullable :
+    Nullable extends true ? Record<keyof LooseOptions, true> :
+    Record<keyof LooseOptions, false>
+
+/**
+ * Gets the pair mode the options of {@link CommonProps} select.
+ * 
+ * @template Options The options
+ * @returns The mode, or its deep counterpart if `depth` is set
+ */
+export type OptionsMode<Options extends CommonPropsOptions> =
+    [OptionOr<Options, "depth", never>] extends [never]
+    ? OptionOr<Options, "mode", "strict">
+    : OptionOr<Options, "mode", "strict"> extends "upcast" ? "deepUpcast" : "deepStrict"
+
+/**
+ * Joins a tuple of strings and numbers into a single string.
+ * 
+ * @template T Tuple of the parts to join
+ * @template Separator The string between parts (default: `', '`)
+ * @returns The joined string, or `''` for an empty tuple
+ * 
+ * @example
+ * ```typescript
+ * type A = Join<[0, 2]>;         // '0, 2'
+ * type B = Join<['a', 'b'], '; '>; // 'a; b'
+ * ```
+ */
+export type Join<T extends readonly unknown[], Separator extends string = ", "> =
+    T extends readonly [infer Only extends string | number]
+    ? `${Only}`
+    : T extends readonly [infer First extends string | number, ...infer Rest]
+    ? `${First}${Separator}${Join<Rest, Separator>}`
+    : ""
+
+/**
+ * Finds the variant at which the values of a property stop unifying.
+ * 
+ * Unifies ever longer prefixes of the values with {@link ModeUnifyAll}, so
+ * the values are paired the same way as in the result.
+ * 
+ * @template V Tuple of value types, in input order
+ * @template Mode The unification mode
+ * @template Prefix Values before the current one (internal)
+ * @returns Zero-based index of the first value that does not unify with those before it, or `never` if all unify
+ * 
+ * @example
+ * ```typescript
+ * type A = ConflictIndex<['cat', 'cat', 'dog'], 'strict'>; // 2
+ * type B = ConflictIndex<['cat', 'dog', 1], 'upcast'>;     // 2
+ * ```
+ */
+export type ConflictIndex<V extends readonly unknown[], Mode extends CommonMode, Prefix extends unknown[] = []> =
+    V extends readonly [infer First, ...infer Rest]
+    ? [ModeUnifyAll<[...Prefix, First], Mode>] extends [never]
+    ? Prefix["length"]
+    : ConflictIndex<Rest, Mode, [...Prefix, First]>
+    : never
+
+/**
+ * Describes why a key is not part of the common result of a mode.
+ * 
+ * @template T Tuple of types to compare
+ * @template K The key that was lost
+ * @template Mode The unification mode
+ * @returns A message naming the key and the offending variant indices
+ * 
+ * @example
+ * ```typescript
+ * type A = LostKeyMessage<[{ id: 1 }, { name: 'a' }], 'id', 'strict'>; // 'Key "id" is missing from variant 1'
+ * type B = LostKeyMessage<[{ id: 1 }, { id: 2 }], 'id', 'strict'>;     // 'Key "id" cannot be unified in strict mode at variant 1'
+ * ```
+ */
+export type LostKeyMessage<T extends readonly unknown[], K, Mode extends CommonMode> =
+    `Key ${K extends string | number ? `"${K}"` : "[symbol]"} ${MissingIndices<T, K> extends [number]
+    ? `is missing from variant ${MissingIndices<T, K>[0]}`
+    : MissingIndices<T, K> extends [number, ...number[]]
+    ? `is missing from variants ${Join<MissingIndices<T, K>>}`
+    : [ConflictIndex<PresentValues<T, K>, Mode>] extends [never]
+    ? "is not in any variant"
+    : `cannot be unified in ${Mode} mode at variant ${ConflictIndex<PresentValues<T, K>, Mode>}`}`
+
+/**
+ * Describes why each of a tuple of keys is not part of the common result of a mode.
+ * 
+ * @template T Tuple of types to compare
+ * @template Keys Tuple of the keys that were lost
+ * @template Mode The unification mode
+ * @template Acc Messages collected so far (internal)
+ * @returns Tuple of {@link LostKeyMessage} messages, one per key
+ */
+export type LostKeyMessages<T extends readonly unknown[], Keys extends readonly unknown[], Mode extends CommonMode, Acc extends string[] = []> =
+    Keys extends readonly [infer First, ...infer Rest]
+    ? LostKeyMessages<T, Rest, Mode, [...Acc, LostKeyMessage<T, First, Mode>]>
+    : Acc
@@ -0,0 +1,249 @@
+/**
+ * Runtime counterparts of the strict and upcast modes.
+ *
+ * Values are compared the way the type-level modes compare the literal types
+ * that `const` inference gives them:
+ * - **Strict mode**: Values must be equal (primitives by `Object.is`, arrays and plain objects structurally)
+ * - **Upcast mode**: Primitives only need the same `typeof`, so `'cat'` and `'dog'` are both kept as strings
+ *
+ * @example
+ * ```typescript
+ * const [cat, dog] = pickCommon([
+ *     { name: 'Tom', type: 'cat', lives: 9 },
+ *     { name: 'Rex', type: 'dog', good: true },
+ * ], { mode: 'upcast' });
+ * // cat: { name: 'Tom', type: 'cat' }, dog: { name: 'Rex', type: 'dog' }
+ * ```
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import type { CommonStrictProps, CommonUpcastProps, SharedKeys } from "./index.ts";
+import type { IsFunction, Simplify, UnionToIntersection } from "./internal.ts";
+
+/**
+ * Names of the modes supported at runtime.
+ */
+export type PickMode = "strict" | "upcast"
+
+/**
+ * Options for {@link pickCommon}.
+ *
+ * @template Mode The mode to compare values with
+ */
+export interface PickCommonOptions<Mode extends PickMode = PickMode> {
+    /** The mode to compare values with (default: `'strict'`). */
+    mode?: Mode;
+}
+
+/**
+ * Determines if a type has exactly one value, so strict mode always keeps it.
+ *
+ * @template V The type to check
+ * @returns `true` for single literals, `null` and `undefined`, `false` otherwise
+ */
+type IsUnitValue<V> =
+    [V] extends [never] ? false :
+    // A union of several values has no intersection.
+    [V] extends [UnionToIntersection<V>] ? (
+        [V] extends [null | undefined | boolean] ? true :
+        // Patterns like `id-${string}` and wide primitives become index signatures.
+        [V] extends [PropertyKey] ? ({} extends Record<V, unknown> ? false : true) :
+        false
+    ) : false
+
+/**
+ * Determines if every value of a type has the same `typeof`, so upcast mode always keeps it.
+ *
+ * @template V The type to check
+ * @returns `true` for a single primitive kind, `null`, `undefined` or functions, `false` otherwise
+ */
+type IsSingleKind<V> =
+    [V] extends [string] ? true :
+    [V] extends [number] ? true :
+    [V] extends [bigint] ? true :
+    [V] extends [boolean] ? true :
+    [V] extends [symbol] ? true :
+    [V] extends [null] ? true :
+    [V] extends [undefined] ? true :
+    IsFunction<V>
+
+/**
+ * Gets the required keys of a common result whose values always pass the runtime check of a mode.
+ *
+ * @template P The common result
+ * @template Mode The mode to check with
+ * @returns Union of the keys that every call keeps
+ */
+type CertainKeys<P, Mode extends PickMode> = {
+    [K in keyof P]-?: {} extends Pick<P, K> ? never
+    : (Mode extends "upcast" ? IsSingleKind<P[K]> : IsUnitValue<P[K]>) extends true ? K : never
+}[keyof P]
+
+/**
+ * The common properties of a tuple of types in a runtime mode.
+ *
+ * The keys of {@link index!CommonStrictProps} or {@link index!CommonUpcastProps}
+ * of `T`. The runtime checks see values rather than types, so a key is only
+ * required if its type guarantees that the check passes: a single value in
+ * strict mode, and a single `typeof` in upcast mode. Other keys depend on
+ * the values and are optional.
+ *
+ * @template T Tuple of types
+ * @template Mode The mode to use
+ * @returns The common properties of `T`, optional where they depend on the values
+ *
+ * @example
+ * ```typescript
+ * type A = PickedProps<[{ a: 'x' }, { a: 'y' }], 'upcast'>;                   // { a: string }
+ * type B = PickedProps<[{ a: string }, { a: string }], 'strict'>;             // { a?: string }
+ * type C = PickedProps<[{ a: Date; b: 1 }, { a: Date; b: 1 }], 'strict'>;     // { a?: Date; b: 1 }
+ * ```
+ */
+export type PickedProps<T extends readonly unknown[], Mode extends PickMode> =
+    (Mode extends "upcast" ? CommonUpcastProps<T> : CommonStrictProps<T>) extends infer P
+    ? Simplify<
+        { [K in keyof P as K extends CertainKeys<P, Mode> ? K : never]: P[K] } &
+        { [K in keyof P as K extends CertainKeys<P, Mode> ? never : K]?: P[K] }
+    >
+    : never
+
+/**
+ * Determines if a value is a plain object, created by a literal or with a `null` prototype.
+ *
+ * @param value The value to check
+ * @returns `true` if the value is a plain object, `false` otherwise
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+    if (typeof value !== "object" || value === null) {
+        return false;
+    }
+    const proto: unknown = Object.getPrototypeOf(value);
+    return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Determines if two values are equal, the runtime counterpart of {@link index!StrictUnify}.
+ *
+ * Primitives are compared with `Object.is`. Arrays and plain objects are
+ * compared structurally. Anything else must be the same reference.
+ *
+ * @param a First value
+ * @param b Second value
+ * @returns `true` if the values are equal, `false` otherwise
+ */
+export function strictMatch(a: unknown, b: unknown): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((value, index) => strictMatch(value, b[index]));
+    }
+    if (isPlainObject(a) && isPlainObject(b)) {
+        const keys = Object.keys(a);
+        return keys.length === Object.keys(b).length
+            && keys.every((key) => Object.hasOwn(b, key) && strictMatch(a[key], b[key]));
+    }
+    return false;
+}
+
+/**
+ * Determines if two values unify in upcast mode, the runtime counterpart of {@link index!UpcastUnify}.
+ *
+ * Equal values always match. Primitives and functions match if they have the
+ * same `typeof`, except `null` and `undefined`, which only match themselves.
+ * Arrays match if their elements match position by position, or all match
+ * one another. Plain objects must be equal, as upcast mode does not recurse
+ * into them. Other objects, such as dates and maps, match if they have the
+ * same prototype, like the built-in types unify by their type.
+ *
+ * @param a First value
+ * @param b Second value
+ * @returns `true` if the values unify, `false` otherwise
+ */
+export function upcastMatch(a: unknown, b: unknown): boolean {
+    if (strictMatch(a, b)) {
+        return true;
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        if (!Array.isArray(a) || !Array.isArray(b)) {
+            return false;
+        }
+        if (a.length === b.length && a.every((value, index) => upcastMatch(value, b[index]))) {
+            return true;
+        }
+        const elements: unknown[] = [...a, ...b];
+        return elements.every((value) => upcastMatch(elements[0], value));
+    }
+    if (a === null || b === null || a === undefined || b === undefined) {
+        return false;
+    }
+    if (typeof a === "object" && typeof b === "object") {
+        return !isPlainObject(a) && !isPlainObject(b)
+            && Object.getPrototypeOf(a) === Object.getPrototypeOf(b);
+    }
+    return typeof a === typeof b;
+}
+
+/**
+ * Gets the keys present on every object.
+ *
+ * Only own enumerable string keys are considered, in the order of the first object.
+ *
+ * @param objects The objects to compare
+ * @returns The keys shared by all objects, or `[]` if there are none
+ *
+ * @example
+ * ```typescript
+ * const keys = commonKeys({ a: 1, b: 2 }, { b: 3, c: 4 }); // ['b']
+ * ```
+ */
+export function commonKeys<const T extends readonly object[]>(...objects: T): (SharedKeys<T> & string)[] {
+    const [first, ...rest] = objects;
+    if (first === undefined) {
+        return [];
+    }
+    return Object.keys(first).filter(
+        (key) => rest.every((object) => Object.hasOwn(object, key)),
+    ) as (SharedKeys<T> & string)[];
+}
+
+/**
+ * Copies the properties common to all objects into a new object per input.
+ *
+ * A key is kept if every object has it and its values match under the mode:
+ * {@link strictMatch} for `'strict'` and {@link upcastMatch} for `'upcast'`.
+ * The result is typed with {@link PickedProps} of the inferred input types.
+ * The runtime checks see values rather than declared types, so keys whose
+ * types allow values that fail the check, such as a `string` property in
+ * strict mode, are optional.
+ *
+ * @template T Tuple of the object types, inferred as `const`
+ * @template Mode The mode to compare values with
+ * @param objects The objects to pick from
+ * @param options Options, including the mode (default: `'strict'`)
+ * @returns One object per input with only the common properties
+ *
+ * @example
+ * ```typescript
+ * const picked = pickCommon([
+ *     { id: 1, kind: 'cat', lives: 9 },
+ *     { id: 2, kind: 'dog', good: true },
+ * ], { mode: 'upcast' });
+ * // [{ id: 1, kind: 'cat' }, { id: 2, kind: 'dog' }]
+ * ```
+ */
+export function pickCommon<const T extends readonly object[], Mode extends PickMode = "strict">(
+    objects: T,
+    options: PickCommonOptions<Mode> = {},
+): { -readonly [I in keyof T]: PickedProps<T, Mode> } {
+    const match = options.mode === "upcast" ? upcastMatch : strictMatch;
+    const records = objects as readonly Record<string, unknown>[];
+    const keys = commonKeys(...records).filter(
+        (key) => records.every((record) => match(records[0]?.[key], record[key])),
+    );
+    return records.map((record) => Object.fromEntries(
+        keys.map((key) => [key, record[key]]),
+    )) as { -readonly [I in keyof T]: PickedProps<T, Mode> };
+}
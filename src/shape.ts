@@ -0,0 +1,460 @@
+/**
+ * Runtime shape inference from JSON samples.
+ *
+ * Each sample is described by its literal shape, the type `as const` would
+ * give it, and the shapes are combined with the same rules as
+ * `CommonStrictPairs` / `CommonUpcastPairs`. The result can be printed as a
+ * TypeScript declaration.
+ *
+ * @example
+ * ```typescript
+ * const shape = inferCommonShape([
+ *     { id: 1, type: 'cat', lives: 9 },
+ *     { id: 2, type: 'dog', good: true },
+ * ], 'upcast');
+ *
+ * renderDeclaration(shape, 'Animal');
+ * // interface Animal {
+ * //     id: number;
+ * //     type: string;
+ * // }
+ * ```
+ *
+ * @author Adam Mill <hismajesty@theroyalwhee.com>
+ * @license Apache-2.0
+ */
+
+import { isPlainObject, type PickMode } from "./pickcommon.ts";
+
+/**
+ * A literal value, such as `'cat'`, `1`, `true` or `null`.
+ */
+export interface LiteralShape {
+    /** Discriminant. */
+    kind: "literal";
+    /** The literal value. */
+    value: string | number | boolean | null;
+}
+
+/**
+ * A primitive type, such as `string`.
+ */
+export interface PrimitiveShape {
+    /** Discriminant. */
+    kind: "primitive";
+    /** Name of the primitive type. */
+    type: "string" | "number" | "boolean";
+}
+
+/**
+ * An array of any length.
+ */
+export interface ArrayShape {
+    /** Discriminant. */
+    kind: "array";
+    /** Shape of the elements. */
+    element: Shape;
+}
+
+/**
+ * A fixed-length tuple.
+ */
+export interface TupleShape {
+    /** Discriminant. */
+    kind: "tuple";
+    /** Shape of each element, by position. */
+    elements: Shape[];
+}
+
+/**
+ * An object with known properties.
+ */
+export interface ObjectShape {
+    /** Discriminant. */
+    kind: "object";
+    /** Shape of each property, by key. */
+    properties: Record<string, Shape>;
+}
+
+/**
+ * A union of shapes. A union without members is `never`.
+ */
+export interface UnionShape {
+    /** Discriminant. */
+    kind: "union";
+    /** The members of the union. */
+    members: Shape[];
+}
+
+/**
+ * Runtime description of a type inferred from JSON values.
+ */
+export type Shape = LiteralShape | PrimitiveShape | ArrayShape | TupleShape | ObjectShape | UnionShape
+
+/**
+ * Gets the literal shape of a JSON value.
+ *
+ * @param value The value to describe
+ * @returns The shape `as const` would give the value
+ * @throws {TypeError} If the value is not a JSON value
+ */
+function shapeOf(value: unknown): Shape {
+    if (value === null || typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+        return { kind: "literal", value };
+    }
+    if (Array.isArray(value)) {
+        return { kind: "tuple", elements: value.map(shapeOf) };
+    }
+    if (isPlainObject(value)) {
+        return {
+            kind: "object",
+            properties: Object.fromEntries(Object.entries(value).map(([key, property]) => [key, shapeOf(property)])),
+        };
+    }
+    throw new TypeError(`Expected a JSON value, got ${typeof value}`);
+}
+
+/**
+ * Creates a union, merging the members the way the compiler does.
+ *
+ * Nested unions are flattened, duplicates and literals covered by a primitive
+ * member are removed, and `true | false` becomes `boolean`.
+ *
+ * @param members The members of the union
+ * @returns The union, or its only member
+ */
+function unionOf(members: Shape[]): Shape {
+    const flat = members.flatMap((member) => member.kind === "union" ? member.members : [member]);
+    const distinct: Shape[] = [];
+    for (const member of flat) {
+        if (!distinct.some((other) => shapeEquals(member, other))) {
+            distinct.push(member);
+        }
+    }
+    if (distinct.some((member) => member.kind === "literal" && member.value === true)
+        && distinct.some((member) => member.kind === "literal" && member.value === false)) {
+        distinct.push({ kind: "primitive", type: "boolean" });
+    }
+    const reduced = distinct.filter((member) => member.kind !== "literal" || !distinct.some(
+        (other) => other.kind === "primitive" && other.type === typeof member.value,
+    ));
+    return reduced.length === 1 && reduced[0] !== undefined ? reduced[0] : { kind: "union", members: reduced };
+}
+
+/**
+ * Determines if a shape is assignable to another, like `T extends U`.
+ *
+ * @param a The shape to check
+ * @param b The shape to check against
+ * @returns `true` if `a` is assignable to `b`, `false` otherwise
+ */
+function shapeExtends(a: Shape, b: Shape): boolean {
+    if (a.kind === "union") {
+        return a.members.every((member) => shapeExtends(member, b));
+    }
+    switch (b.kind) {
+        case "union":
+            return b.members.some((member) => shapeExtends(a, member));
+        case "literal":
+            return a.kind === "literal" && a.value === b.value;
+        case "primitive":
+            return (a.kind === "primitive" && a.type === b.type)
+                || (a.kind === "literal" && a.value !== null && typeof a.value === b.type);
+        case "array":
+            return (a.kind === "array" && shapeExtends(a.element, b.element))
+                || (a.kind === "tuple" && a.elements.every((element) => shapeExtends(element, b.element)));
+        case "tuple":
+            return a.kind === "tuple" && a.elements.length === b.elements.length
+                && a.elements.every((element, index) => {
+                    const other = b.elements[index];
+                    return other !== undefined && shapeExtends(element, other);
+                });
+        case "object":
+            return a.kind === "object" && Object.entries(b.properties).every(([key, property]) => {
+                const own = a.properties[key];
+                return Object.hasOwn(a.properties, key) && own !== undefined && shapeExtends(own, property);
+            });
+    }
+}
+
+/**
+ * Determines if two shapes are assignable to each other.
+ *
+ * @param a First shape
+ * @param b Second shape
+ * @returns `true` if the shapes are equivalent, `false` otherwise
+ */
+function shapeEquals(a: Shape, b: Shape): boolean {
+    return shapeExtends(a, b) && shapeExtends(b, a);
+}
+
+/**
+ * Runtime counterpart of `WiderOf`.
+ *
+ * @param a First shape
+ * @param b Second shape
+ * @returns The more general shape, or `undefined` if neither extends the other
+ */
+function widerOf(a: Shape, b: Shape): Shape | undefined {
+    if (shapeExtends(a, b)) {
+        return b;
+    }
+    if (shapeExtends(b, a)) {
+        return a;
+    }
+    return undefined;
+}
+
+/**
+ * Runtime counterpart of `IsPrimitiveUpcastable`: a literal other than
+ * `null`, or a union of literals of the same primitive type.
+ *
+ * @param shape The shape to check
+ * @returns The primitive the shape upcasts to, or `undefined` if it cannot be upcast
+ */
+function upcastBase(shape: Shape): PrimitiveShape | undefined {
+    const members = shape.kind === "union" ? shape.members : [shape];
+    const types = new Set(members.map((member) => member.kind === "literal" && member.value !== null ? typeof member.value : undefined));
+    const [type] = types;
+    if (types.size !== 1 || (type !== "string" && type !== "number" && type !== "boolean")) {
+        return undefined;
+    }
+    return { kind: "primitive", type };
+}
+
+/**
+ * Determines if a shape is an array, a tuple, or a union of them.
+ *
+ * @param shape The shape to check
+ * @returns `true` if the shape is array-like, `false` otherwise
+ */
+function isArrayLike(shape: Shape): boolean {
+    return shape.kind === "array" || shape.kind === "tuple"
+        || (shape.kind === "union" && shape.members.every(isArrayLike));
+}
+
+/**
+ * Gets the shape of the elements of an array-like shape.
+ *
+ * @param shape The array-like shape
+ * @returns The element shape, a union of the tuple elements or union members
+ */
+function elementOf(shape: Shape): Shape {
+    switch (shape.kind) {
+        case "array":
+            return shape.element;
+        case "tuple":
+            return unionOf(shape.elements);
+        case "union":
+            return unionOf(shape.members.map(elementOf));
+        default:
+            return shape;
+    }
+}
+
+/**
+ * Gets the elements of a tuple shape, or of a union of tuples of one length.
+ *
+ * @param shape The shape to check
+ * @returns The element shapes by position, or `undefined` if the shape is not such a tuple
+ */
+function tupleElements(shape: Shape): Shape[] | undefined {
+    if (shape.kind === "tuple") {
+        return shape.elements;
+    }
+    if (shape.kind !== "union") {
+        return undefined;
+    }
+    const tuples = shape.members.map(tupleElements);
+    const [first] = tuples;
+    if (first === undefined || !tuples.every((elements) => elements?.length === first.length)) {
+        return undefined;
+    }
+    return first.map((_, index) => unionOf(tuples.map((elements) => elements?.[index] ?? unionOf([]))));
+}
+
+/**
+ * Runtime counterpart of `StrictUnify`.
+ *
+ * @param a First shape
+ * @param b Second shape
+ * @returns The shape if both are equivalent, `undefined` otherwise
+ */
+function strictUnify(a: Shape, b: Shape): Shape | undefined {
+    return shapeEquals(a, b) ? a : undefined;
+}
+
+/**
+ * Runtime counterpart of `UpcastUnify`.
+ *
+ * @param a First shape
+ * @param b Second shape
+ * @returns The unified shape, or `undefined` if the shapes cannot be unified
+ */
+function upcastUnify(a: Shape, b: Shape): Shape | undefined {
+    const wider = widerOf(a, b);
+    if (wider !== undefined) {
+        return wider;
+    }
+    if (isArrayLike(a)) {
+        return isArrayLike(b) ? arrayUnify(a, b) : undefined;
+    }
+    const aBase = upcastBase(a);
+    const bBase = upcastBase(b);
+    return aBase !== undefined && bBase !== undefined ? widerOf(aBase, bBase) : undefined;
+}
+
+/**
+ * Runtime counterpart of `ArrayUnify`.
+ *
+ * @param a First array-like shape
+ * @param b Second array-like shape
+ * @returns The unified shape, or `undefined` if the elements cannot be unified
+ */
+function arrayUnify(a: Shape, b: Shape): Shape | undefined {
+    const aElements = tupleElements(a);
+    const bElements = tupleElements(b);
+    if (aElements !== undefined && bElements !== undefined && aElements.length === bElements.length) {
+        const elements: Shape[] = [];
+        for (const [index, element] of aElements.entries()) {
+            const other = bElements[index];
+            const unified = other === undefined ? undefined : upcastUnify(element, other);
+            if (unified === undefined) {
+                break;
+            }
+            elements.push(unified);
+        }
+        if (elements.length === aElements.length) {
+            return { kind: "tuple", elements };
+        }
+    }
+    const element = upcastUnify(elementOf(a), elementOf(b));
+    return element === undefined ? undefined : { kind: "array", element };
+}
+
+/**
+ * Combines the properties of two object shapes, like the pair types.
+ *
+ * @param a First object shape
+ * @param b Second object shape
+ * @param mode The mode to unify property shapes with
+ * @returns Object shape with the properties present in both that unify
+ */
+function commonPairs(a: ObjectShape, b: ObjectShape, mode: PickMode): ObjectShape {
+    const unify = mode === "upcast" ? upcastUnify : strictUnify;
+    const entries: [string, Shape][] = [];
+    for (const [key, property] of Object.entries(a.properties)) {
+        const other = b.properties[key];
+        const unified = Object.hasOwn(b.properties, key) && other !== undefined ? unify(property, other) : undefined;
+        if (unified !== undefined) {
+            // Collected as entries, as assigning a `__proto__` key would set the prototype.
+            entries.push([key, unified]);
+        }
+    }
+    return { kind: "object", properties: Object.fromEntries(entries) };
+}
+
+/**
+ * Infers the common shape of a set of JSON objects.
+ *
+ * Each sample is described by its literal shape, and the shapes are combined
+ * by the rules of {@link index!CommonStrictPairs} or
+ * {@link index!CommonUpcastPairs}, so the result matches the type-level result
+ * for the samples typed `as const`, apart from their `readonly` modifiers,
+ * which shapes do not record.
+ *
+ * @param samples The JSON objects to inspect
+ * @param mode The mode to combine the samples with (default: `'strict'`)
+ * @returns Object shape with the common properties, or an empty object shape if there are no samples
+ * @throws {TypeError} If a sample is not a plain object, or contains a non-JSON value
+ *
+ * @example
+ * ```typescript
+ * const shape = inferCommonShape([{ id: 1, type: 'cat' }, { id: 2, type: 'dog' }], 'upcast');
+ * // { kind: 'object', properties: { id: { kind: 'primitive', type: 'number' }, type: { kind: 'primitive', type: 'string' } } }
+ * ```
+ */
+export function inferCommonShape(samples: readonly unknown[], mode: PickMode = "strict"): ObjectShape {
+    const shapes = samples.map((sample) => {
+        const shape = shapeOf(sample);
+        if (shape.kind !== "object") {
+            throw new TypeError(`Expected an object sample, got ${Array.isArray(sample) ? "array" : typeof sample}`);
+        }
+        return shape;
+    });
+    const [first, ...rest] = shapes;
+    if (first === undefined) {
+        return { kind: "object", properties: {} };
+    }
+    return rest.reduce((common, shape) => commonPairs(common, shape, mode), first);
+}
+
+/**
+ * Prints a shape as a TypeScript type.
+ *
+ * @param shape The shape to print
+ * @param indent Indentation of the enclosing line
+ * @returns TypeScript source for the type
+ */
+function renderShape(shape: Shape, indent: string): string {
+    switch (shape.kind) {
+        case "literal":
+            return JSON.stringify(shape.value);
+        case "primitive":
+            return shape.type;
+        case "array": {
+            const element = renderShape(shape.element, indent);
+            return shape.element.kind === "union" && shape.element.members.length > 1 ? `(${element})[]` : `${element}[]`;
+        }
+        case "tuple":
+            return `[${shape.elements.map((element) => renderShape(element, indent)).join(", ")}]`;
+        case "union":
+            return shape.members.length === 0
+                ? "never"
+                : shape.members.map((member) => renderShape(member, indent)).join(" | ");
+        case "object": {
+            const entries = Object.entries(shape.properties);
+            if (entries.length === 0) {
+                return "{}";
+            }
+            const inner = `${indent}    `;
+            const lines = entries.map(([key, property]) => `${inner}${renderKey(key)}: ${renderShape(property, inner)};`);
+            return `{\n${lines.join("\n")}\n${indent}}`;
+        }
+    }
+}
+
+/**
+ * Prints a property key, quoting it if it is not a valid identifier.
+ *
+ * @param key The property key
+ * @returns TypeScript source for the key
+ */
+function renderKey(key: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Prints a shape as a TypeScript declaration.
+ *
+ * Object shapes become an `interface`, anything else a `type` alias.
+ * Nested objects are printed inline, indented by four spaces per level.
+ * Properties and tuples are printed without `readonly` modifiers.
+ *
+ * @param shape The shape to print
+ * @param name Name of the declared type
+ * @returns TypeScript source for the declaration
+ *
+ * @example
+ * ```typescript
+ * renderDeclaration(inferCommonShape([{ id: 1 }, { id: 2 }], 'upcast'), 'Item');
+ * // interface Item {
+ * //     id: number;
+ * // }
+ * ```
+ */
+export function renderDeclaration(shape: Shape, name: string): string {
+    return shape.kind === "object"
+        ? `interface ${name} ${renderShape(shape, "")}`
+        : `type ${name} = ${renderShape(shape, "")};`;
+}
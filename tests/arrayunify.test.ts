@@ -0,0 +1,107 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { ArrayUnify, CommonUpcastPairs, CommonUpcastProps, TupleUnify } from "../src/index.ts";
+
+describe("TupleUnify", () => {
+  test("should unify same-length tuples element by element", () => {
+    type Result = TupleUnify<["a", 1], ["b", 2]>[0];
+    const result: Result = ["any", 99];
+
+    expect(result).to.deep.equal(["any", 99]);
+  });
+
+  test("should not unify only the matching members of a union of tuples", () => {
+    type Result = TupleUnify<[1] | [2, 3], [4]>;
+    // @ts-expect-error Cannot assign to never type
+    const result: Result = [[5]];
+
+    expect(result).to.have.length(1);
+  });
+
+  test("should fail for tuples of different lengths", () => {
+    type Result = TupleUnify<["a", 1], ["b"]>;
+    // @ts-expect-error Cannot assign to never type
+    const result: Result = [["a", 1]];
+
+    expect(result).to.have.length(1);
+  });
+});
+
+describe("ArrayUnify", () => {
+  test("should unify tuples of different literals to an array", () => {
+    type Result = ArrayUnify<["a", "b"], ["c"]>[0];
+    const result: Result = ["x", "y", "z"];
+
+    expect(result).to.have.length(3);
+  });
+
+  test("should unify same-length tuples element-wise", () => {
+    type Result = ArrayUnify<["a", 1], ["b", 2]>[0];
+    const result: Result = ["x", 3];
+    // @ts-expect-error elements keep their position
+    const wrong: Result = [3, "x"];
+
+    expect(result).to.deep.equal(["x", 3]);
+    expect(wrong).to.deep.equal([3, "x"]);
+  });
+
+  test("should be readonly if either input is readonly", () => {
+    type Result = ArrayUnify<readonly "a"[], "b"[]>[0];
+    const result: Result = ["x"];
+    // @ts-expect-error result is readonly
+    result.push("y");
+
+    expect(result).to.deep.equal(["x", "y"]);
+  });
+
+  test("should stay mutable if both inputs are mutable", () => {
+    type Result = ArrayUnify<"a"[], "b"[]>[0];
+    const result: Result = ["x"];
+    result.push("y");
+
+    expect(result).to.deep.equal(["x", "y"]);
+  });
+
+  test("should fail for arrays of unrelated elements", () => {
+    type Result = ArrayUnify<string[], number[]>;
+    // @ts-expect-error Cannot assign to never type
+    const result: Result = [[]];
+
+    expect(result).to.have.length(1);
+  });
+});
+
+describe("CommonUpcastPairs arrays", () => {
+  test("should unify tuple properties of different literals", () => {
+    interface TypeA { tags: ["a", "b"]; }
+    interface TypeB { tags: ["c"]; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { tags: ["x", "y", "z"] };
+
+    expect(result.tags).to.have.length(3);
+  });
+
+  test("should keep the more general of readonly and mutable arrays", () => {
+    interface TypeA { tags: readonly string[]; }
+    interface TypeB { tags: string[]; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { tags: ["x"] };
+    // @ts-expect-error tags is a readonly array
+    result.tags.push("y");
+
+    expect(result.tags).to.deep.equal(["x", "y"]);
+  });
+
+  test("should unify arrays across tuples of types", () => {
+    interface Cat { pair: ["cat", 1]; }
+    interface Dog { pair: ["dog", 2]; }
+    interface Bird { pair: ["bird", 3]; }
+
+    type Result = CommonUpcastProps<[Cat, Dog, Bird]>;
+    const result: Result = { pair: ["fish", 4] };
+
+    expect(result.pair).to.deep.equal(["fish", 4]);
+  });
+});
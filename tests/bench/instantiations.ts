@@ -0,0 +1,172 @@
+/**
+ * Type-checking benchmark for large variant sets.
+ *
+ * Generates a fixture per case, type-checks it with
+ * `tsc --extendedDiagnostics` and compares the instantiation count with the
+ * baseline recorded in `instantiations.json`. Fails if a fixture does not
+ * compile, or needs more than {@link TOLERANCE} more instantiations than
+ * recorded.
+ *
+ * Usage:
+ *
+ * ```bash
+ * npm run bench               # Compare against the baseline
+ * npm run bench -- --update   # Record a new baseline
+ * ```
+ */
+import { spawnSync } from "node:child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createRequire } from "node:module";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * A fixture to type-check.
+ */
+interface BenchCase {
+  /** Name of the case in the baseline. */
+  name: string;
+  /** Exported type to apply to the variants. */
+  type: string;
+  /** Number of variants to generate. */
+  variants: number;
+  /** Pass the variants as a union instead of a tuple. */
+  union?: boolean;
+}
+
+/**
+ * Result of type-checking a fixture.
+ */
+interface BenchResult {
+  /** Instantiations beyond those of a fixture that only imports the library. */
+  instantiations: number;
+  /** Check time reported by the compiler, in seconds. */
+  seconds: number;
+  /** Compiler errors, if any. */
+  errors: string[];
+}
+
+/** Allowed growth over the baseline before a case fails. */
+const TOLERANCE = 0.1;
+
+const CASES: BenchCase[] = [
+  { name: "strict-150", type: "CommonStrictProps", variants: 150 },
+  { name: "upcast-150", type: "CommonUpcastProps", variants: 150 },
+  { name: "upcast-400", type: "CommonUpcastProps", variants: 400 },
+  { name: "upcast-of-150", type: "CommonUpcastOf", variants: 150, union: true },
+  { name: "union-150", type: "CommonUnionProps", variants: 150 },
+  { name: "loose-150", type: "CommonLooseProps", variants: 150 },
+  { name: "partial-150", type: "CommonPartialProps", variants: 150 },
+  { name: "deep-upcast-150", type: "CommonDeepUpcastProps", variants: 150 },
+];
+
+const benchDir = fileURLToPath(new URL(".", import.meta.url));
+const baselinePath = join(benchDir, "instantiations.json");
+const sourcePath = fileURLToPath(new URL("../../src/index.ts", import.meta.url)).replaceAll("\\", "/");
+const tscPath = createRequire(import.meta.url).resolve("typescript/bin/tsc");
+
+/**
+ * Generates the source of a fixture.
+ *
+ * Each variant has shared, literal, optional, readonly, nested, callback
+ * and variant-only properties, similar to a generated event catalog.
+ *
+ * @param bench The case to generate, or `undefined` for a fixture that only imports the library
+ * @returns TypeScript source
+ */
+function fixture(bench?: BenchCase): string {
+  const lines = [`import type * as C from "${sourcePath}";`];
+  if (bench === undefined) {
+    lines.push("export type Result = C.CommonMode;");
+    return lines.join("\n");
+  }
+  const names: string[] = [];
+  for (let i = 0; i < bench.variants; i++) {
+    names.push(`E${i}`);
+    lines.push(`interface E${i} {`
+      + ` id: string; type: "event${i}"; seq: ${i}; active: ${i % 2 === 0};`
+      + ` readonly source: "bench"; note?: string;`
+      + ` meta: { version: ${i % 3}; tags: "t${i}"[] };`
+      + ` handle: (event: { e${i}: true }) => "r${i}";`
+      + ` only${i}: ${i}; }`);
+  }
+  const args = bench.union === true ? names.join(" | ") : `[${names.join(", ")}]`;
+  lines.push(`export type Result = C.${bench.type}<${args}>;`);
+  // Resolve the result so that its properties are instantiated.
+  lines.push(`export const key: keyof Result = "id";`);
+  return lines.join("\n");
+}
+
+/**
+ * Type-checks a fixture.
+ *
+ * @param dir Directory to write the fixture to
+ * @param name File name of the fixture
+ * @param source Source of the fixture
+ * @returns The raw instantiation count, check time and errors
+ */
+function check(dir: string, name: string, source: string): BenchResult {
+  const file = join(dir, `${name}.ts`);
+  writeFileSync(file, source);
+  const result = spawnSync(process.execPath, [
+    tscPath, "--noEmit", "--extendedDiagnostics", "--strict", "--exactOptionalPropertyTypes",
+    "--skipLibCheck", "--allowImportingTsExtensions", "--module", "esnext",
+    "--moduleResolution", "bundler", "--target", "es2022", "--types", "node", file,
+  ], { encoding: "utf8" });
+  const output = result.stdout;
+  const instantiations = /^Instantiations:\s+(\d+)/m.exec(output);
+  const seconds = /^Check time:\s+([\d.]+)s/m.exec(output);
+  if (instantiations === null || seconds === null) {
+    throw new Error(`Unexpected compiler output for ${name}:\n${output}${result.stderr}`);
+  }
+  return {
+    instantiations: Number(instantiations[1]),
+    seconds: Number(seconds[1]),
+    errors: output.split("\n").filter((line) => line.includes("error TS")),
+  };
+}
+
+/**
+ * Runs every case and compares or records the baseline.
+ *
+ * @param update Record a new baseline instead of comparing
+ * @returns Process exit code
+ */
+function main(update: boolean): number {
+  const baseline: Record<string, number> = existsSync(baselinePath)
+    ? JSON.parse(readFileSync(baselinePath, "utf8")) as Record<string, number>
+    : {};
+  const dir = mkdtempSync(join(tmpdir(), "commonprops-bench-"));
+  const recorded: Record<string, number> = {};
+  let failed = false;
+  try {
+    const empty = check(dir, "empty", fixture());
+    for (const bench of CASES) {
+      const result = check(dir, bench.name, fixture(bench));
+      const count = result.instantiations - empty.instantiations;
+      const expected = baseline[bench.name];
+      recorded[bench.name] = count;
+      let status = "ok";
+      if (result.errors.length > 0) {
+        status = `error: ${result.errors.join("; ")}`;
+        failed = true;
+      } else if (!update && expected === undefined) {
+        status = "no baseline";
+      } else if (!update && expected !== undefined && count > expected * (1 + TOLERANCE)) {
+        status = `regressed from ${expected}`;
+        failed = true;
+      }
+      process.stdout.write(`${bench.name.padEnd(18)} ${String(count).padStart(10)} ${result.seconds.toFixed(2).padStart(7)}s  ${status}\n`);
+    }
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+  if (update && !failed) {
+    writeFileSync(baselinePath, `${JSON.stringify(recorded, null, 2)}\n`);
+    process.stdout.write(`Baseline written to ${baselinePath}\n`);
+  }
+  return failed ? 1 : 0;
+}
+
+process.exitCode = main(process.argv.includes("--update"));
@@ -0,0 +1,116 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonDeepStrictPairs, CommonDeepStrictProps, IsIdentical } from "../src/index.ts";
+
+describe("CommonDeepStrictPairs", () => {
+  test("should keep only strictly common nested properties", () => {
+    interface TypeA { name: string; meta: { kind: "a"; id: string; }; }
+    interface TypeB { name: string; meta: { kind: "b"; id: string; }; }
+
+    type Result = CommonDeepStrictPairs<TypeA, TypeB>;
+    const result: Result = {
+      name: "test",
+      meta: {
+        id: "1",
+        // @ts-expect-error kind excluded: 'a' !== 'b'
+        kind: "a"
+      }
+    };
+
+    expect(result.meta.id).to.equal("1");
+  });
+
+  test("should keep identical nested objects unchanged", () => {
+    interface Meta { kind: "a"; id: string; }
+    interface TypeA { meta: Meta; }
+    interface TypeB { meta: Meta; }
+
+    type Result = CommonDeepStrictPairs<TypeA, TypeB>;
+    const result: Result = {
+      meta: { kind: "a", id: "1" }
+    };
+
+    expect(result.meta.kind).to.equal("a");
+  });
+});
+
+describe("CommonDeepStrictProps", () => {
+  test("should recurse across three types", () => {
+    interface Cat { name: string; meta: { kind: "cat"; info: { legs: 4; id: string; }; }; }
+    interface Dog { name: string; meta: { kind: "dog"; info: { legs: 4; id: string; }; }; }
+    interface Bird { name: string; meta: { kind: "bird"; info: { legs: 2; id: string; }; }; }
+
+    type Result = CommonDeepStrictProps<[Cat, Dog, Bird]>;
+    const result: Result = {
+      name: "animal",
+      meta: {
+        info: {
+          id: "1",
+          // @ts-expect-error legs excluded: 4 !== 2
+          legs: 4
+        }
+      }
+    };
+
+    expect(result.meta.info.id).to.equal("1");
+  });
+
+  test("should reduce arrays of nested objects to their common properties", () => {
+    interface TypeA { items: { kind: "a"; id: string; }[]; }
+    interface TypeB { items: { kind: "b"; id: string; }[]; }
+
+    type Result = CommonDeepStrictProps<[TypeA, TypeB]>;
+    const result: Result = {
+      items: [{
+        id: "1",
+        // @ts-expect-error kind excluded: 'a' !== 'b'
+        kind: "a"
+      }]
+    };
+
+    expect(result.items).to.have.length(1);
+  });
+
+  test("should stop recursing at the configured depth", () => {
+    interface TypeA { name: string; meta: { kind: "a"; id: string; }; }
+    interface TypeB { name: string; meta: { kind: "b"; id: string; }; }
+
+    type Result = CommonDeepStrictProps<[TypeA, TypeB], 0>;
+    const result: Result = {
+      name: "test",
+      // @ts-expect-error meta excluded: no recursion allowed
+      meta: { id: "1" }
+    };
+
+    expect(result.name).to.equal("test");
+  });
+
+  test("should handle single type in array", () => {
+    interface Person { name: string; meta: { id: string; }; }
+
+    type Result = CommonDeepStrictProps<[Person]>;
+    const result: Result = { name: "alice", meta: { id: "1" } };
+
+    expect(result.meta.id).to.equal("1");
+  });
+
+  test("should flatten nested results at every level", () => {
+    interface TypeA { name: string; meta: { kind: "a"; id: string; inner: { q: 1; }; }; tags: { a: 1; }[]; }
+    interface TypeB { name: string; meta: { kind: "b"; id: string; inner: { q: 2; }; }; tags: { b: 1; }[]; }
+
+    type Result = CommonDeepStrictProps<[TypeA, TypeB]>;
+    const result: IsIdentical<Result, { name: string; meta: { id: string; inner: {}; }; tags: {}[]; }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should recurse into nullable nested objects", () => {
+    interface TypeA { meta: { x: 1; y: string; } | null; other: { x: 1; } | null; }
+    interface TypeB { meta: { x: 2; y: string; } | null; other: { x: 2; } | undefined; }
+
+    type Result = CommonDeepStrictProps<[TypeA, TypeB]>;
+    const result: IsIdentical<Result, { meta: { y: string; } | null; }> = true;
+
+    expect(result).to.equal(true);
+  });
+});
@@ -0,0 +1,152 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonDeepUpcastPairs, CommonDeepUpcastProps, IsIdentical } from "../src/index.ts";
+
+describe("CommonDeepUpcastPairs", () => {
+  test("should unify nested objects with different literals", () => {
+    interface TypeA { name: string; meta: { kind: "a"; id: string; }; }
+    interface TypeB { name: string; meta: { kind: "b"; id: string; }; }
+
+    type Result = CommonDeepUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      name: "test",
+      meta: {
+        kind: "any kind", // 'a' | 'b' → string
+        id: "1"
+      }
+    };
+
+    expect(result.meta.kind).to.equal("any kind");
+    expect(result.meta.id).to.equal("1");
+  });
+
+  test("should drop nested properties that are not common", () => {
+    interface TypeA { meta: { id: string; onlyA: true; }; }
+    interface TypeB { meta: { id: string; onlyB: 1; }; }
+
+    type Result = CommonDeepUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      meta: {
+        id: "1",
+        // @ts-expect-error onlyA is not common
+        onlyA: true
+      }
+    };
+
+    expect(result.meta.id).to.equal("1");
+  });
+
+  test("should still exclude mismatched primitives", () => {
+    interface TypeA { name: string; meta: { kind: "a"; }; }
+    interface TypeB { name: string; meta: string; }
+
+    type Result = CommonDeepUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      name: "test",
+      // @ts-expect-error meta excluded: object vs string
+      meta: "nope"
+    };
+
+    expect(result.name).to.equal("test");
+  });
+});
+
+describe("CommonDeepUpcastProps", () => {
+  test("should unify deeply nested objects across three types", () => {
+    interface Cat { name: string; meta: { kind: "cat"; info: { legs: 4; label: "c"; }; }; }
+    interface Dog { name: string; meta: { kind: "dog"; info: { legs: 4; label: "d"; }; }; }
+    interface Bird { name: string; meta: { kind: "bird"; info: { legs: 2; label: "b"; }; }; }
+
+    type Result = CommonDeepUpcastProps<[Cat, Dog, Bird]>;
+    const result: Result = {
+      name: "animal",
+      meta: {
+        kind: "any kind",
+        info: {
+          legs: 99,       // 4 | 2 → number
+          label: "any"    // 'c' | 'd' | 'b' → string
+        }
+      }
+    };
+
+    expect(typeof result.meta.kind).to.equal("string");
+    expect(typeof result.meta.info.legs).to.equal("number");
+  });
+
+  test("should stop recursing at the configured depth", () => {
+    interface TypeA { meta: { kind: "a"; info: { label: "a"; }; }; }
+    interface TypeB { meta: { kind: "b"; info: { label: "b"; }; }; }
+
+    type Result = CommonDeepUpcastProps<[TypeA, TypeB], 1>;
+    const result: Result = {
+      meta: {
+        kind: "any",
+        // @ts-expect-error info excluded: depth exhausted
+        info: { label: "any" }
+      }
+    };
+
+    expect(result.meta.kind).to.equal("any");
+  });
+
+  test("should behave like flat mode at depth zero", () => {
+    interface TypeA { name: string; meta: { kind: "a"; }; }
+    interface TypeB { name: string; meta: { kind: "b"; }; }
+
+    type Result = CommonDeepUpcastProps<[TypeA, TypeB], 0>;
+    const result: Result = {
+      name: "test",
+      // @ts-expect-error meta excluded: no recursion allowed
+      meta: { kind: "any" }
+    };
+
+    expect(result.name).to.equal("test");
+  });
+
+  test("should unify arrays of nested objects", () => {
+    interface TypeA { items: { kind: "a"; id: string; }[]; }
+    interface TypeB { items: { kind: "b"; id: string; }[]; }
+
+    type Result = CommonDeepUpcastProps<[TypeA, TypeB]>;
+    const result: Result = { items: [{ kind: "any", id: "1" }] };
+
+    expect(result.items).to.have.length(1);
+  });
+
+  test("should terminate on recursive types", () => {
+    interface NodeA { value: "a"; next: NodeA; }
+    interface NodeB { value: "b"; next: NodeB; }
+
+    type Result = CommonDeepUpcastProps<[NodeA, NodeB]>;
+    const value: Result["next"]["next"]["value"] = "any value";
+
+    expect(value).to.equal("any value");
+  });
+
+  test("should flatten nested results at every level", () => {
+    interface TypeA { name: string; meta: { kind: "a"; id: string; inner: { q: 1; }; }; tags: { a: 1; }[]; }
+    interface TypeB { name: string; meta: { kind: "b"; id: string; inner: { q: 2; }; }; tags: { b: 1; }[]; }
+
+    type Result = CommonDeepUpcastProps<[TypeA, TypeB]>;
+    const result: IsIdentical<Result, { name: string; meta: { kind: string; id: string; inner: { q: number; }; }; tags: {}[]; }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should recurse into nullable nested objects", () => {
+    interface TypeA { meta: { x: 1; } | null; other: { x: 1; } | null; }
+    interface TypeB { meta: { x: 2; } | null; other: { x: 2; } | undefined; }
+
+    type Result = CommonDeepUpcastProps<[TypeA, TypeB]>;
+    const result: IsIdentical<Result, { meta: { x: number; } | null; }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should use custom empty type for empty array", () => {
+    type Result = CommonDeepUpcastProps<[], 5, null>;
+    const result: Result = null;
+
+    void expect(result).to.be.null;
+  });
+});
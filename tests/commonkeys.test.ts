@@ -0,0 +1,71 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonKeys, ConflictingKeys, IsIdentical, PartialKeys } from "../src/index.ts";
+
+interface Cat { name: string; type: "cat"; legs: 4; lives: 9; }
+interface Dog { name: string; type: "dog"; legs: 4; good: true; }
+interface Bird { name: string; type: "bird"; legs: 2; }
+
+describe("CommonKeys", () => {
+  test("should get the keys of the strict result by default", () => {
+    const result: IsIdentical<CommonKeys<[Cat, Dog]>, "name" | "legs"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should follow the mode", () => {
+    const upcast: IsIdentical<CommonKeys<[Cat, Dog, Bird], "upcast">, "name" | "type" | "legs"> = true;
+    const strict: IsIdentical<CommonKeys<[Cat, Dog, Bird], "strict">, "name"> = true;
+
+    expect([upcast, strict]).to.deep.equal([true, true]);
+  });
+
+  test("should accept a union of variants", () => {
+    const result: IsIdentical<CommonKeys<(Cat | Dog)[]>, "name" | "legs"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should work as a constraint", () => {
+    const read = <K extends CommonKeys<[Cat, Dog]>>(animal: Cat | Dog, key: K): (Cat | Dog)[K] => animal[key];
+    // @ts-expect-error type is not common in strict mode
+    read({ name: "Tom", type: "cat", legs: 4, lives: 9 }, "type");
+
+    expect(read({ name: "Rex", type: "dog", legs: 4, good: true }, "legs")).to.equal(4);
+  });
+
+  test("should be never for an empty tuple", () => {
+    const result: IsIdentical<CommonKeys<[]>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("ConflictingKeys", () => {
+  test("should get the shared keys that do not unify", () => {
+    const strict: IsIdentical<ConflictingKeys<[Cat, Dog, Bird]>, "type" | "legs"> = true;
+    const upcast: IsIdentical<ConflictingKeys<[Cat, Dog, Bird], "upcast">, never> = true;
+
+    expect([strict, upcast]).to.deep.equal([true, true]);
+  });
+
+  test("should not include keys missing from some types", () => {
+    const result: IsIdentical<ConflictingKeys<[{ a: 1; b: 1 }, { a: 2 }]>, "a"> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("PartialKeys", () => {
+  test("should get the keys present in some types but not all", () => {
+    const result: IsIdentical<PartialKeys<[Cat, Dog, Bird]>, "lives" | "good"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should accept a union of variants", () => {
+    const result: IsIdentical<PartialKeys<(Cat | Dog)[]>, "lives" | "good"> = true;
+
+    expect(result).to.equal(true);
+  });
+});
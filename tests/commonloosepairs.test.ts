@@ -0,0 +1,102 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonLoosePairs } from "../src/index.ts";
+
+describe("CommonLoosePairs", () => {
+  test("should keep upcast behavior for compatible types", () => {
+    interface Cat { name: string; type: "cat"; }
+    interface Dog { name: string; type: "dog"; }
+
+    type Result = CommonLoosePairs<Cat, Dog>;
+    const result: Result = { name: "rex", type: "any string" };
+
+    expect(typeof result.type).to.equal("string");
+  });
+
+  test("should merge mismatched primitives into a union", () => {
+    interface TypeA { id: string; }
+    interface TypeB { id: number; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB>;
+    const text: Result = { id: "a1" };
+    const numeric: Result = { id: 1 };
+
+    expect(text.id).to.equal("a1");
+    expect(numeric.id).to.equal(1);
+  });
+
+  test("should widen mixed literal unions", () => {
+    interface TypeA { code: "a" | 1; }
+    interface TypeB { code: true; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB>;
+    const text: Result = { code: "zzz" };
+    const numeric: Result = { code: 42 };
+    const flag: Result = { code: false };
+
+    expect([text.code, numeric.code, flag.code]).to.deep.equal(["zzz", 42, false]);
+  });
+
+  test("should exclude null conflicts when disabled", () => {
+    interface TypeA { id: string; deleted: "no"; }
+    interface TypeB { id: string; deleted: null; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB, { null: false; }>;
+    const result: Result = {
+      id: "1",
+      // @ts-expect-error deleted excluded: null is not merged
+      deleted: null
+    };
+
+    expect(result.id).to.equal("1");
+  });
+
+  test("should merge null by default", () => {
+    interface TypeA { deleted: "no"; }
+    interface TypeB { deleted: null; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB>;
+    const missing: Result = { deleted: null };
+    const present: Result = { deleted: "maybe" };
+    // @ts-expect-error undefined is not merged
+    const wrong: Result = { deleted: undefined };
+
+    void expect(missing.deleted).to.be.null;
+    expect(present.deleted).to.equal("maybe");
+    void expect(wrong.deleted).to.be.undefined;
+  });
+
+  test("should merge undefined when enabled", () => {
+    interface TypeA { label: string; }
+    interface TypeB { label: undefined; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB, { undefined: true; }>;
+    const result: Result = { label: undefined };
+
+    void expect(result.label).to.be.undefined;
+  });
+
+  test("should still exclude non-primitive conflicts", () => {
+    interface TypeA { id: string; meta: { a: 1; }; }
+    interface TypeB { id: string; meta: string; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB>;
+    const result: Result = {
+      id: "1",
+      // @ts-expect-error meta excluded: object vs string
+      meta: "x"
+    };
+
+    expect(result.id).to.equal("1");
+  });
+
+  test("should merge null with objects when enabled", () => {
+    interface TypeA { meta: { a: 1; }; }
+    interface TypeB { meta: null; }
+
+    type Result = CommonLoosePairs<TypeA, TypeB, { null: true; }>;
+    const result: Result = { meta: null };
+
+    void expect(result.meta).to.be.null;
+  });
+});
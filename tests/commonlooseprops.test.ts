@@ -0,0 +1,44 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonLooseProps } from "../src/index.ts";
+
+describe("CommonLooseProps", () => {
+  test("should merge primitives across three types", () => {
+    interface Legacy { id: string; count: "3"; }
+    interface Current { id: number; count: 3; }
+    interface Future { id: bigint; count: 3; }
+
+    type Result = CommonLooseProps<[Legacy, Current, Future]>;
+    const result: Result = { id: 1n, count: "3" };
+
+    expect(typeof result.id).to.equal("bigint");
+    expect(result.count).to.equal("3");
+  });
+
+  test("should pass options through every step", () => {
+    interface RowA { deletedAt: string; }
+    interface RowB { deletedAt: null; }
+    interface RowC { deletedAt: number; }
+
+    type Result = CommonLooseProps<[RowA, RowB, RowC], { null: true; }>;
+    const result: Result = { deletedAt: null };
+
+    void expect(result.deletedAt).to.be.null;
+  });
+
+  test("should handle single type in array", () => {
+    interface Person { name: string; }
+
+    type Result = CommonLooseProps<[Person]>;
+    const result: Result = { name: "alice" };
+
+    expect(result.name).to.equal("alice");
+  });
+
+  test("should use custom empty type for empty array", () => {
+    type Result = CommonLooseProps<[], {}, null>;
+    const result: Result = null;
+
+    void expect(result).to.be.null;
+  });
+});
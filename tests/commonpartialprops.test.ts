@@ -0,0 +1,97 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonPartialPairs, CommonPartialProps } from "../src/index.ts";
+
+describe("CommonPartialProps", () => {
+  test("should keep keys present in only some types as optional", () => {
+    interface Cat { name: string; type: "cat"; meows: true; }
+    interface Dog { name: string; type: "dog"; barks: true; }
+    interface Bird { name: string; type: "bird"; sings: true; }
+
+    type Result = CommonPartialProps<[Cat, Dog, Bird]>;
+    const minimal: Result = { name: "rex", type: "any" };
+    const full: Result = { name: "rex", type: "any", meows: true, barks: true, sings: true };
+
+    expect(minimal.name).to.equal("rex");
+    expect(full.barks).to.equal(true);
+  });
+
+  test("should require keys present in every type", () => {
+    interface Cat { name: string; meows: true; }
+    interface Dog { name: string; barks: true; }
+
+    type Result = CommonPartialProps<[Cat, Dog]>;
+    // @ts-expect-error name is required
+    const result: Result = { meows: true };
+
+    expect(result.meows).to.equal(true);
+  });
+
+  test("should upcast values of partially shared keys", () => {
+    interface TypeA { id: string; level: 1; }
+    interface TypeB { id: string; }
+    interface TypeC { id: string; level: 2; }
+
+    type Result = CommonPartialProps<[TypeA, TypeB, TypeC]>;
+    const result: Result = { id: "1", level: 99 }; // 1 | 2 → number
+
+    expect(typeof result.level).to.equal("number");
+  });
+
+  test("should exclude keys whose values cannot be unified", () => {
+    interface TypeA { id: string; code: string; }
+    interface TypeB { id: string; code: number; }
+    interface TypeC { id: string; code: string; }
+
+    type Result = CommonPartialProps<[TypeA, TypeB, TypeC]>;
+    const result: Result = {
+      id: "1",
+      // @ts-expect-error code excluded: string vs number
+      code: "x"
+    };
+
+    expect(result.id).to.equal("1");
+  });
+
+  test("should be optional if optional in any type", () => {
+    interface TypeA { id?: string; }
+    interface TypeB { id: string; }
+
+    type Result = CommonPartialProps<[TypeA, TypeB]>;
+    const result: Result = {};
+
+    expect(result).to.deep.equal({});
+  });
+
+  test("should be readonly if readonly in any type", () => {
+    interface TypeA { readonly id: string; }
+    interface TypeB { extra: number; }
+
+    type Result = CommonPartialProps<[TypeA, TypeB]>;
+    const result: Result = { id: "1" };
+    // @ts-expect-error id is readonly
+    result.id = "2";
+
+    expect(result.id).to.equal("2");
+  });
+
+  test("should use custom empty type for empty array", () => {
+    type Result = CommonPartialProps<[], null>;
+    const result: Result = null;
+
+    void expect(result).to.be.null;
+  });
+});
+
+describe("CommonPartialPairs", () => {
+  test("should combine two types", () => {
+    interface TypeA { id: 1; a: string; }
+    interface TypeB { id: 2; b: number; }
+
+    type Result = CommonPartialPairs<TypeA, TypeB>;
+    const result: Result = { id: 3, b: 1 };
+
+    expect(result.id).to.equal(3);
+    expect(result.b).to.equal(1);
+  });
+});
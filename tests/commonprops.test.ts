@@ -0,0 +1,116 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonDeepUpcastProps, CommonLooseProps, CommonPartialProps, CommonProps, CommonStrictProps, CommonUpcastProps,
+  IsIdentical, PartialVariants,
+} from "../src/index.ts";
+
+interface Cat { name: string; type: "cat"; lives: 9; meta: { id: string; born: number }; }
+interface Dog { name: string; type: "dog"; meta: { id: string; good: true }; }
+
+describe("CommonProps", () => {
+  test("should default to strict mode", () => {
+    const result: IsIdentical<CommonProps<[Cat, Dog]>, CommonStrictProps<[Cat, Dog]>> = true;
+    const value: CommonProps<[Cat, Dog]> = { name: "Tom" };
+
+    expect(result).to.equal(true);
+    expect(value).to.deep.equal({ name: "Tom" });
+  });
+
+  test("should select the mode", () => {
+    type Result = CommonProps<[Cat, Dog], { mode: "upcast" }>;
+    const result: IsIdentical<Result, CommonUpcastProps<[Cat, Dog]>> = true;
+    const value: Result = { name: "Tom", type: "cat" };
+
+    expect(result).to.equal(true);
+    expect(value.type).to.equal("cat");
+  });
+
+  test("should recurse into nested objects with a depth", () => {
+    type Result = CommonProps<[Cat, Dog], { mode: "upcast"; depth: 2 }>;
+    const result: IsIdentical<Result, CommonDeepUpcastProps<[Cat, Dog], 2>> = true;
+    const value: Result = { name: "Tom", type: "cat", meta: { id: "1" } };
+
+    expect(result).to.equal(true);
+    expect(value.meta.id).to.equal("1");
+  });
+
+  test("should keep keys from any type as optional", () => {
+    type Result = CommonProps<[Cat, Dog], { mode: "upcast"; optional: "any" }>;
+    const result: IsIdentical<Result, CommonPartialProps<[Cat, Dog]>> = true;
+    const value: Result = { name: "Rex", type: "dog" };
+
+    expect(result).to.equal(true);
+    expect(value).to.not.have.property("lives");
+  });
+
+  test("should use the mode for optional keys", () => {
+    type Result = CommonProps<[Cat, Dog], { optional: "any" }>;
+    const result: IsIdentical<Result, { name: string; lives?: 9 }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should merge nullish values in loose mode", () => {
+    interface RowA { deletedAt: string; }
+    interface RowB { deletedAt: null; }
+    type Result = CommonProps<[RowA, RowB], { mode: "loose"; nullable: true }>;
+    const result: IsIdentical<Result, CommonLooseProps<[RowA, RowB], { null: true; undefined: true }>> = true;
+    const value: Result = { deletedAt: null };
+
+    expect(result).to.equal(true);
+    void expect(value.deletedAt).to.be.null;
+  });
+
+  test("should merge nullish values in upcast mode", () => {
+    interface RowA { deletedAt: "never"; meta: { id: string }; }
+    interface RowB { deletedAt: null; meta: undefined; }
+    type Result = CommonProps<[RowA, RowB], { mode: "upcast"; nullable: true }>;
+    const result: IsIdentical<Result, { deletedAt: string | null; meta: { id: string } | undefined }> = true;
+    // @ts-expect-error nullable needs upcast or loose mode
+    type StrictNullable = CommonProps<[RowA, RowB], { nullable: true }>;
+    const values: StrictNullable[] = [];
+
+    expect(result).to.equal(true);
+    expect(values).to.have.length(0);
+  });
+
+  test("should merge null by default and not when nullable is false", () => {
+    interface RowA { deletedAt: "never"; }
+    interface RowB { deletedAt: null; }
+    const merged: IsIdentical<CommonProps<[RowA, RowB], { mode: "upcast" }>, { deletedAt: string | null }> = true;
+    const excluded: IsIdentical<CommonProps<[RowA, RowB], { mode: "upcast"; nullable: false }>, {}> = true;
+
+    expect([merged, excluded]).to.deep.equal([true, true]);
+  });
+
+  test("should use the empty option for an empty tuple", () => {
+    const never: IsIdentical<CommonProps<[], { empty: never }>, never> = true;
+    const empty: IsIdentical<CommonProps<[]>, {}> = true;
+
+    expect([never, empty]).to.deep.equal([true, true]);
+  });
+
+  test("should reject options that do not combine", () => {
+    // @ts-expect-error union mode has no deep variant
+    type UnionDepth = CommonProps<[Cat, Dog], { mode: "union"; depth: 2 }>;
+    // @ts-expect-error nullable results are flat
+    type UpcastNullable = CommonProps<[Cat, Dog], { mode: "upcast"; nullable: true; depth: 2 }>;
+    // @ts-expect-error partial results are not deep
+    type PartialDepth = CommonProps<[Cat, Dog], { optional: "any"; depth: 2 }>;
+    const values: [UnionDepth?, UpcastNullable?, PartialDepth?] = [];
+
+    expect(values).to.have.length(0);
+  });
+});
+
+describe("PartialVariants", () => {
+  test("should unify shared values with the mode", () => {
+    type Strict = PartialVariants<[{ id: 1; a: 1 }, { id: 2; b: 1 }], "strict">;
+    type Upcast = PartialVariants<[{ id: 1; a: 1 }, { id: 2; b: 1 }], "upcast">;
+    const strict: IsIdentical<Strict, { a?: 1; b?: 1 }> = true;
+    const upcast: IsIdentical<Upcast, { id: number; a?: 1; b?: 1 }> = true;
+
+    expect([strict, upcast]).to.deep.equal([true, true]);
+  });
+});
@@ -0,0 +1,115 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonPropsOf, CommonStrictProps, CommonStrictPropsOf, CommonUpcastProps, CommonUpcastPropsOf,
+  ExplainCommonPropsOf, IsIdentical, MissingLabels, VariantsOf,
+} from "../src/index.ts";
+
+interface Cat { name: string; type: "cat"; lives: 9; }
+interface Dog { name: string; type: "dog"; lives: 1; }
+interface Bird { name: string; type: 1; }
+
+describe("VariantsOf", () => {
+  test("should list one variant per key", () => {
+    type Result = VariantsOf<{ cat: Cat; dog: Dog }>;
+    const variants: IsIdentical<Result[number], Cat | Dog> = true;
+    const length: IsIdentical<Result["length"], 2> = true;
+
+    expect([variants, length]).to.deep.equal([true, true]);
+  });
+
+  test("should follow the given order of the keys", () => {
+    const result: IsIdentical<VariantsOf<{ cat: Cat; dog: Dog }, ["dog", "cat"]>, [Dog, Cat]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should keep variants that are the same type", () => {
+    const result: IsIdentical<VariantsOf<{ cat: Cat; kitten: Cat }>, [Cat, Cat]> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("CommonStrictPropsOf", () => {
+  test("should match the tuple form", () => {
+    const result: IsIdentical<CommonStrictPropsOf<{ cat: Cat; dog: Dog }>, CommonStrictProps<[Cat, Dog]>> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should use the empty type without variants", () => {
+    const result: IsIdentical<CommonStrictPropsOf<{}, never>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("CommonUpcastPropsOf", () => {
+  test("should match the tuple form", () => {
+    type Result = CommonUpcastPropsOf<{ cat: Cat; dog: Dog; bird: Bird }>;
+    const result: IsIdentical<Result, CommonUpcastProps<[Cat, Dog, Bird]>> = true;
+    const value: Result = { name: "Tom" };
+
+    expect(result).to.equal(true);
+    expect(value.name).to.equal("Tom");
+  });
+
+  test("should accept a record registry", () => {
+    type Kind = "cat" | "dog";
+    interface Registry { cat: Cat; dog: Dog; }
+    type Result = CommonUpcastPropsOf<{ [K in Kind]: Registry[K] }>;
+    const value: Result = { name: "Rex", type: "dog", lives: 1 };
+
+    expect(value.lives).to.equal(1);
+  });
+});
+
+describe("CommonPropsOf", () => {
+  test("should pass the options through", () => {
+    type Result = CommonPropsOf<{ cat: Cat; bird: Bird }, { mode: "upcast"; optional: "any" }>;
+    const result: IsIdentical<Result, { name: string; lives?: 9 }> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("MissingLabels", () => {
+  test("should name the variants without the key", () => {
+    const result: IsIdentical<MissingLabels<{ cat: Cat; dog: Dog; bird: Bird }, "lives">, "bird"> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("ExplainCommonPropsOf", () => {
+  type Result = ExplainCommonPropsOf<{ cat: Cat; dog: Dog; bird: Bird }, "upcast">;
+
+  test("should name the variants missing a property", () => {
+    const lives: IsIdentical<Result["lives"], { status: "missing"; in: "bird"[] }> = true;
+    // @ts-expect-error bird is the variant without lives
+    const wrong: Result["lives"] = { status: "missing", in: ["cat"] };
+
+    expect(lives).to.equal(true);
+    expect(wrong.in).to.deep.equal(["cat"]);
+  });
+
+  test("should not depend on the order of the names", () => {
+    type Missing = ExplainCommonPropsOf<{ cat: Bird; dog: Bird; bird: Cat }, "strict">["lives"];
+    const result: IsIdentical<Missing["in"], ("cat" | "dog")[]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should key conflicting types by name", () => {
+    const type: Result["type"] = { status: "conflict", types: { cat: "cat", dog: "dog", bird: 1 } };
+
+    expect(type.types.bird).to.equal(1);
+  });
+
+  test("should keep included properties", () => {
+    const name: Result["name"] = { status: "included", type: "any string" };
+
+    expect(name.status).to.equal("included");
+  });
+});
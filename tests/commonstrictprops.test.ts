@@ -129,4 +129,17 @@ describe("CommonStrictProps", () => {
     
     expect(Object.keys(result)).to.have.length(0);
   });
+
+  test("should handle arrays of a union of variants", () => {
+    interface Cat { name: string; type: "cat"; legs: 4; }
+    interface Dog { name: string; type: "dog"; legs: 4; }
+
+    type Result = CommonStrictProps<(Cat | Dog)[]>;
+    const result: Result = { name: "rex", legs: 4 };
+    // @ts-expect-error type excluded: 'cat' !== 'dog'
+    const typed: Result = { name: "rex", legs: 4, type: "dog" };
+
+    expect(result.legs).to.equal(4);
+    expect(typed.name).to.equal("rex");
+  });
 });
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonStrictOf, CommonStrictProps, CommonUpcastOf, CommonUpcastProps, IsIdentical } from "../src/index.ts";
+import type { UnionToTuple } from "../src/internal.ts";
+
+describe("UnionToTuple", () => {
+  test("should have one element per union member", () => {
+    type Result = UnionToTuple<"a" | "b" | "c">["length"];
+    const result: Result = 3;
+
+    expect(result).to.equal(3);
+  });
+
+  test("should be empty for never", () => {
+    type Result = UnionToTuple<never>;
+    const result: Result = [];
+
+    expect(result).to.have.length(0);
+  });
+});
+
+describe("CommonStrictOf", () => {
+  test("should match the tuple form", () => {
+    interface Cat { name: string; type: "cat"; legs: 4; }
+    interface Dog { name: string; type: "dog"; legs: 4; }
+    interface Bird { name: string; type: "bird"; legs: 2; }
+
+    type Result = CommonStrictOf<Cat | Dog | Bird>;
+    const result: Result = { name: "animal" };
+    const tuple: CommonStrictProps<[Cat, Dog, Bird]> = result;
+    const back: Result = tuple;
+
+    expect(back.name).to.equal("animal");
+  });
+
+  test("should keep modifiers", () => {
+    interface Cat { readonly id: number; tag?: string; }
+    interface Dog { id: number; tag: string; }
+
+    type Result = CommonStrictOf<Cat | Dog>;
+    const result: Result = { id: 1 };
+    // @ts-expect-error id is readonly
+    result.id = 2;
+
+    expect(result.tag).to.equal(undefined);
+  });
+});
+
+describe("CommonUpcastOf", () => {
+  test("should match the tuple form", () => {
+    interface Cat { name: string; type: "cat"; legs: 4; }
+    interface Dog { name: string; type: "dog"; legs: 4; }
+    interface Bird { name: string; type: "bird"; legs: 2; }
+
+    type Result = CommonUpcastOf<Cat | Dog | Bird>;
+    const result: Result = { name: "animal", type: "fish", legs: 0 };
+    const tuple: CommonUpcastProps<[Cat, Dog, Bird]> = result;
+    const back: Result = tuple;
+
+    expect(back.type).to.equal("fish");
+  });
+
+  test("should not depend on the union order", () => {
+    interface Open { kind: "open"; closedAt: "never"; label: "a" | null; run: () => "a"; }
+    interface Closed { kind: "closed"; closedAt: null; label: "b"; run: () => 1; }
+    interface Pending { kind: "pending"; closedAt: "soon"; label: null; run: () => "b"; }
+    type Result = CommonUpcastOf<Open | Closed | Pending>;
+    type Expected = { kind: string; closedAt: string | null; label: string | null; run: () => string | number };
+
+    const results: [
+      IsIdentical<Result, Expected>,
+      IsIdentical<Result, CommonUpcastProps<[Open, Closed, Pending]>>,
+      IsIdentical<Result, CommonUpcastProps<[Open, Pending, Closed]>>,
+      IsIdentical<Result, CommonUpcastProps<[Closed, Open, Pending]>>,
+      IsIdentical<Result, CommonUpcastProps<[Closed, Pending, Open]>>,
+      IsIdentical<Result, CommonUpcastProps<[Pending, Open, Closed]>>,
+      IsIdentical<Result, CommonUpcastProps<[Pending, Closed, Open]>>,
+    ] = [true, true, true, true, true, true, true];
+
+    expect(results).to.deep.equal([true, true, true, true, true, true, true]);
+  });
+
+  test("should return a single type unchanged", () => {
+    interface Cat { name: string; type: "cat"; }
+
+    type Result = CommonUpcastOf<Cat>;
+    // @ts-expect-error type stays 'cat'
+    const result: Result = { name: "tom", type: "dog" };
+
+    expect(result.name).to.equal("tom");
+  });
+
+  test("should use the Empty type for never", () => {
+    type Result = CommonUpcastOf<never, null>;
+    const result: Result = null;
+
+    expect(result).to.equal(null);
+  });
+  test("should pass the nullish options on", () => {
+    interface Active { id: string; deletedAt: "never"; }
+    interface Deleted { id: string; deletedAt: null; }
+
+    type Result = CommonUpcastOf<Active | Deleted>;
+    const result: Result = { id: "a", deletedAt: null };
+    // @ts-expect-error deletedAt is excluded without the null option
+    const excluded: CommonUpcastOf<Active | Deleted, {}, { null: false }>["deletedAt"] = null;
+
+    expect([result.deletedAt, excluded]).to.deep.equal([null, null]);
+  });
+});
@@ -0,0 +1,68 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonUnionPairs } from "../src/index.ts";
+
+describe("CommonUnionPairs", () => {
+  test("should find exact type matches", () => {
+    interface TypeA { name: string; age: number; }
+    interface TypeB { name: string; age: number; }
+
+    type Result = CommonUnionPairs<TypeA, TypeB>;
+    const result: Result = { name: "test", age: 25 };
+
+    expect(result.name).to.equal("test");
+    expect(result.age).to.equal(25);
+  });
+
+  test("should preserve string literals as a union", () => {
+    interface Cat { name: string; type: "cat"; }
+    interface Dog { name: string; type: "dog"; }
+
+    type Result = CommonUnionPairs<Cat, Dog>;
+    const cat: Result = { name: "tom", type: "cat" };
+    const dog: Result = { name: "rex", type: "dog" };
+    // @ts-expect-error 'bird' is not one of the variant values
+    const bird: Result = { name: "tweety", type: "bird" };
+
+    expect(cat.type).to.equal("cat");
+    expect(dog.type).to.equal("dog");
+    expect(bird.type).to.equal("bird");
+  });
+
+  test("should combine boolean literals into boolean", () => {
+    interface StateA { enabled: true; }
+    interface StateB { enabled: false; }
+
+    type Result = CommonUnionPairs<StateA, StateB>;
+    const on: Result = { enabled: true };
+    const off: Result = { enabled: false };
+
+    expect(on.enabled).to.equal(true);
+    expect(off.enabled).to.equal(false);
+  });
+
+  test("should keep mismatched types as a union", () => {
+    interface TypeA { id: string; data: { a: 1 }; }
+    interface TypeB { id: number; data: { b: 2 }; }
+
+    type Result = CommonUnionPairs<TypeA, TypeB>;
+    const result: Result = { id: 1, data: { a: 1 } };
+
+    expect(result.id).to.equal(1);
+    expect(result.data).to.deep.equal({ a: 1 });
+  });
+
+  test("should exclude properties missing from either type", () => {
+    interface TypeA { name: string; onlyA: true; }
+    interface TypeB { name: string; onlyB: true; }
+
+    type Result = CommonUnionPairs<TypeA, TypeB>;
+    const result: Result = {
+      name: "test",
+      // @ts-expect-error onlyA is not common
+      onlyA: true
+    };
+
+    expect(result.name).to.equal("test");
+  });
+});
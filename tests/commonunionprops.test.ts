@@ -0,0 +1,66 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonUnionProps } from "../src/index.ts";
+
+describe("CommonUnionProps", () => {
+  test("should preserve literals across three types", () => {
+    interface Cat { name: string; type: "cat"; active: true; }
+    interface Dog { name: string; type: "dog"; active: false; }
+    interface Bird { name: string; type: "bird"; active: true; }
+
+    type Result = CommonUnionProps<[Cat, Dog, Bird]>;
+    const result: Result = { name: "tweety", type: "bird", active: false };
+
+    expect(result.type).to.equal("bird");
+    expect(typeof result.active).to.equal("boolean");
+  });
+
+  test("should support exhaustive switch statements", () => {
+    interface Cat { type: "cat"; }
+    interface Dog { type: "dog"; }
+    interface Bird { type: "bird"; }
+
+    type Result = CommonUnionProps<[Cat, Dog, Bird]>;
+    const sound = (animal: Result): string => {
+      switch (animal.type) {
+        case "cat": return "meow";
+        case "dog": return "woof";
+        case "bird": return "tweet";
+      }
+    };
+
+    expect(sound({ type: "cat" })).to.equal("meow");
+    expect(sound({ type: "bird" })).to.equal("tweet");
+  });
+
+  test("should only keep keys present in every type", () => {
+    interface TypeA { id: 1; onlyA: string; }
+    interface TypeB { id: 2; onlyB: string; }
+    interface TypeC { id: 3; onlyA: string; }
+
+    type Result = CommonUnionProps<[TypeA, TypeB, TypeC]>;
+    const result: Result = {
+      id: 3,
+      // @ts-expect-error onlyA is not in TypeB
+      onlyA: "a"
+    };
+
+    expect(result.id).to.equal(3);
+  });
+
+  test("should handle single type in array", () => {
+    interface Person { name: string; role: "admin"; }
+
+    type Result = CommonUnionProps<[Person]>;
+    const result: Result = { name: "alice", role: "admin" };
+
+    expect(result.role).to.equal("admin");
+  });
+
+  test("should use custom empty type for empty array", () => {
+    type Result = CommonUnionProps<[], null>;
+    const result: Result = null;
+
+    void expect(result).to.be.null;
+  });
+});
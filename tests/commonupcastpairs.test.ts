@@ -1,6 +1,6 @@
 import { test, describe } from "vitest";
 import { expect } from "chai";
-import type { CommonUpcastPairs } from "../src/index.ts";
+import type { CommonUpcastPairs, IsIdentical, NullishUnify } from "../src/index.ts";
 
 describe("CommonUpcastPairs", () => {
   test("should find exact type matches", () => {
@@ -172,4 +172,206 @@ describe("CommonUpcastPairs", () => {
     expect(typeof result.status).to.equal("string");
     expect(typeof result.count).to.equal("number");
   });
-});
\ No newline at end of file
+
+  test("should upcast bigint literals to bigint", () => {
+    interface TypeA { id: string; size: 1n; }
+    interface TypeB { id: string; size: 2n; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      id: "test",
+      size: 99n // 1n | 2n → bigint
+    };
+
+    expect(typeof result.size).to.equal("bigint");
+  });
+
+  test("should upcast unique symbols to symbol", () => {
+    const catTag: unique symbol = Symbol("cat");
+    const dogTag: unique symbol = Symbol("dog");
+    interface Cat { id: string; tag: typeof catTag; }
+    interface Dog { id: string; tag: typeof dogTag; }
+
+    type Result = CommonUpcastPairs<Cat, Dog>;
+    const cat: Result = { id: "cat", tag: catTag };
+    const dog: Result = { id: "dog", tag: dogTag };
+    const bird: Result = {
+      id: "bird",
+      tag: Symbol("bird") // unique symbols → symbol
+    };
+
+    expect(cat.tag).to.not.equal(dog.tag);
+    expect(typeof bird.tag).to.equal("symbol");
+  });
+
+  test("should upcast template literal patterns to string", () => {
+    interface User { id: `user-${string}`; }
+    interface Org { id: `org-${string}`; }
+
+    type Result = CommonUpcastPairs<User, Org>;
+    const result: Result = {
+      id: "team-1" // `user-${string}` | `org-${string}` → string
+    };
+
+    expect(typeof result.id).to.equal("string");
+  });
+
+  test("should upcast an enum member paired with a plain literal to its primitive", () => {
+    enum Color { Red = "red" }
+    enum Level { Low, High }
+    interface TypeA { color: Color.Red; level: Level.Low; }
+    interface TypeB { color: "dark"; level: 2; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      color: "blue", // Color.Red | 'dark' → string
+      level: 7       // Level.Low | 2 → number
+    };
+
+    expect(typeof result.color).to.equal("string");
+    expect(typeof result.level).to.equal("number");
+  });
+
+  test("should widen members of the same enum to the enum", () => {
+    enum Color { Red = "red", Blue = "blue" }
+    enum Level { Low, High }
+    interface TypeA { color: Color.Red; level: Level.Low; }
+    interface TypeB { color: Color.Blue; level: Level.High; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    // `Color.Red | Color.Blue` is the `Color` union, though not identical to the declared enum type.
+    const color: [Result["color"], Color] extends [Color, Result["color"]] ? true : false = true;
+    const level: [Result["level"], Level] extends [Level, Result["level"]] ? true : false = true;
+    // @ts-expect-error color is a Color, not any string
+    const wrong: Result = { color: "green", level: Level.Low };
+
+    expect([color, level]).to.deep.equal([true, true]);
+    expect(wrong.color).to.equal("green");
+  });
+
+  test("should keep the members of a larger enum", () => {
+    enum Size { Small = "s", Medium = "m", Large = "l" }
+    interface TypeA { size: Size.Small; }
+    interface TypeB { size: Size.Large; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: IsIdentical<Result, { size: Size.Small | Size.Large }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should unify members of different enums into their union", () => {
+    enum Color { Red = "red" }
+    enum Shade { Dark = "dark" }
+    interface TypeA { color: Color.Red; }
+    interface TypeB { color: Shade.Dark; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: IsIdentical<Result, { color: Color.Red | Shade.Dark }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should prefer the enum type when one side already has it", () => {
+    enum Color { Red = "red", Blue = "blue" }
+    enum Level { Low, High }
+    interface TypeA { color: Color; level: Level; }
+    interface TypeB { color: Color.Blue; level: Level.High; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { color: Color.Red, level: Level.Low };
+    const identical: IsIdentical<Result, { color: Color; level: Level }> = true;
+
+    expect(result.level).to.equal(Level.Low);
+    expect(identical).to.equal(true);
+  });
+
+  test("should widen the other side of a side that is only null", () => {
+    const literal: IsIdentical<NullishUnify<"a", null>, [string | null]> = true;
+    const nullable: IsIdentical<NullishUnify<"a" | null, null>, [string | null]> = true;
+    const declared: IsIdentical<NullishUnify<"a" | null, "a">, ["a" | null]> = true;
+
+    expect([literal, nullable, declared]).to.deep.equal([true, true, true]);
+  });
+
+  test("should not unify across primitive kinds", () => {
+    interface TypeA { id: string; size: 1n; }
+    interface TypeB { id: string; size: 1; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = {
+      id: "test",
+      // @ts-expect-error size excluded: bigint vs number
+      size: 1
+    };
+
+    expect(result.id).to.equal("test");
+  });
+
+  test("should keep declared nullability", () => {
+    interface TypeA { status: "open" | null; note: string; }
+    interface TypeB { status: "closed"; note: string | null; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: IsIdentical<Result, { status: string | null; note: string | null }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should widen a literal paired with null by default", () => {
+    const result: IsIdentical<CommonUpcastPairs<{ a: "x" }, { a: null }>, { a: string | null }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should exclude a literal paired with null when disabled", () => {
+    interface TypeA { id: string; deletedAt: "never"; }
+    interface TypeB { id: string; deletedAt: null; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB, { null: false }>;
+    const result: IsIdentical<Result, { id: string }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should keep objects paired with null", () => {
+    interface TypeA { deletedAt: "never"; owner: { id: string }; }
+    interface TypeB { deletedAt: null; owner: null; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: IsIdentical<Result, { deletedAt: string | null; owner: { id: string } | null }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should merge undefined into optional keys when enabled", () => {
+    interface TypeA { label?: "a"; }
+    interface TypeB { label: undefined; }
+
+    const excluded: IsIdentical<CommonUpcastPairs<TypeA, TypeB>, {}> = true;
+    const merged: IsIdentical<CommonUpcastPairs<TypeA, TypeB, { undefined: true }>, { label?: string | undefined }> = true;
+
+    expect([excluded, merged]).to.deep.equal([true, true]);
+  });
+});
+
+describe("NullishUnify", () => {
+  test("should unify the rest of nullable types", () => {
+    const both: IsIdentical<NullishUnify<"a" | null, "b" | undefined, { null: true; undefined: true }>, [string | null | undefined]> = true;
+    const nullish: IsIdentical<NullishUnify<null, undefined, { null: true; undefined: true }>, [null | undefined]> = true;
+
+    expect([both, nullish]).to.deep.equal([true, true]);
+  });
+
+  test("should not unify across primitive kinds", () => {
+    const result: IsIdentical<NullishUnify<"a" | null, 1, { null: true }>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should only merge the enabled nullish types", () => {
+    const result: IsIdentical<NullishUnify<"a", undefined, { null: true }>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+});
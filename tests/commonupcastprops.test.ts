@@ -1,6 +1,6 @@
 import { test, describe } from "vitest";
 import { expect } from "chai";
-import type { CommonUpcastProps } from "../src/index.ts";
+import type { CommonUpcastProps, IsIdentical } from "../src/index.ts";
 
 describe("CommonUpcastProps", () => {
   test("should handle two types with upcast matching", () => {
@@ -190,4 +190,56 @@ describe("CommonUpcastProps", () => {
     expect(typeof result.timeout).to.equal("number");
     expect(typeof result.database).to.equal("string");
   });
+
+  test("should handle arrays of a union of variants", () => {
+    interface Cat { name: string; type: "cat"; legs: 4; }
+    interface Dog { name: string; type: "dog"; legs: 4; }
+    interface Bird { name: string; type: "bird"; legs: 2; }
+
+    type Result = CommonUpcastProps<(Cat | Dog | Bird)[]>;
+    const result: Result = { name: "tweety", type: "parrot", legs: 3 };
+
+    expect(result.type).to.equal("parrot");
+  });
+
+  test("should handle tuples with rest elements", () => {
+    interface Cat { name: string; type: "cat"; }
+    interface Dog { name: string; type: "dog"; }
+    interface Bird { name: string; type: "bird"; }
+
+    type Result = CommonUpcastProps<[Cat, ...(Dog | Bird)[]]>;
+    const result: Result = { name: "tweety", type: "parrot" };
+
+    expect(result.type).to.equal("parrot");
+  });
+
+  test("should return the element type for arrays of a single type", () => {
+    interface Cat { name: string; type: "cat"; }
+
+    type Result = CommonUpcastProps<Cat[]>;
+    // @ts-expect-error type stays 'cat'
+    const result: Result = { name: "tom", type: "dog" };
+
+    expect(result.name).to.equal("tom");
+  });
+
+  test("should merge null unless disabled", () => {
+    interface Open { status: "open"; closedAt: "never"; }
+    interface Closed { status: "closed" | null; closedAt: null; }
+
+    const merged: IsIdentical<CommonUpcastProps<[Open, Closed]>, { status: string | null; closedAt: string | null }> = true;
+    const kept: IsIdentical<CommonUpcastProps<[Open, Closed], {}, { null: false }>, { status: string | null }> = true;
+
+    expect([merged, kept]).to.deep.equal([true, true]);
+  });
+
+  test("should return the empty type for arrays of non-object elements", () => {
+    interface Cat { name: string; type: "cat"; }
+
+    const strings: IsIdentical<CommonUpcastProps<string[]>, {}> = true;
+    const unknowns: IsIdentical<CommonUpcastProps<unknown[], "none">, "none"> = true;
+    const nullable: IsIdentical<CommonUpcastProps<(Cat | null)[]>, {}> = true;
+
+    expect([strings, unknowns, nullable]).to.deep.equal([true, true, true]);
+  });
 });
\ No newline at end of file
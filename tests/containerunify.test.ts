@@ -0,0 +1,103 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonDeepUpcastPairs, CommonUpcastPairs, CommonUpcastProps, ContainerUnify, IsIdentical, IsPlainObject, IsRecord,
+  KnownKeys,
+} from "../src/index.ts";
+
+describe("KnownKeys", () => {
+  test("should skip index signatures", () => {
+    const mixed: IsIdentical<KnownKeys<{ id: string; [key: string]: unknown }>, "id"> = true;
+    const record: IsIdentical<KnownKeys<Record<string, number>>, never> = true;
+    const pattern: IsIdentical<KnownKeys<{ [key: `id-${string}`]: number }>, never> = true;
+
+    expect([mixed, record, pattern]).to.deep.equal([true, true, true]);
+  });
+});
+
+describe("IsRecord", () => {
+  test("should only accept types made of index signatures", () => {
+    const record: IsRecord<Record<string, number>> = true;
+    const numeric: IsRecord<{ [key: number]: "a" }> = true;
+    const literal: IsRecord<Record<"a" | "b", 1>> = false;
+    const empty: IsRecord<{}> = false;
+
+    expect([record, numeric, literal, empty]).to.deep.equal([true, true, false, false]);
+  });
+});
+
+describe("IsPlainObject", () => {
+  test("should reject built-in objects", () => {
+    const date: IsPlainObject<Date> = false;
+    const map: IsPlainObject<Map<string, number>> = false;
+    const promise: IsPlainObject<Promise<string>> = false;
+
+    expect([date, map, promise]).to.deep.equal([false, false, false]);
+  });
+});
+
+describe("ContainerUnify", () => {
+  test("should unify map keys and values", () => {
+    const result: IsIdentical<ContainerUnify<Map<"a", 1>, Map<"b", 2>>, [Map<string, number>]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should unify set elements, readonly if either is", () => {
+    const mutable: IsIdentical<ContainerUnify<Set<"x">, Set<"y">>, [Set<string>]> = true;
+    const readonly: IsIdentical<ContainerUnify<Set<"x">, ReadonlySet<"y">>, [ReadonlySet<string>]> = true;
+
+    expect([mutable, readonly]).to.deep.equal([true, true]);
+  });
+
+  test("should unify promise results", () => {
+    const result: IsIdentical<ContainerUnify<Promise<"ok">, Promise<"err">>, [Promise<string>]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should unify record values with the same index signatures", () => {
+    const same: IsIdentical<ContainerUnify<Record<string, "a">, Record<string, "b">>, [Record<string, string>]> = true;
+    const different: IsIdentical<ContainerUnify<Record<string, "a">, Record<number, "b">>, never> = true;
+
+    expect([same, different]).to.deep.equal([true, true]);
+  });
+
+  test("should reject mismatched kinds and type arguments", () => {
+    const kinds: IsIdentical<ContainerUnify<Set<"x">, Map<"x", 1>>, never> = true;
+    const promise: IsIdentical<ContainerUnify<Promise<"x">, Set<"x">>, never> = true;
+    const elements: IsIdentical<ContainerUnify<Set<"x">, Set<1>>, never> = true;
+
+    expect([kinds, promise, elements]).to.deep.equal([true, true, true]);
+  });
+});
+
+describe("container properties", () => {
+  test("should be unified in upcast mode", () => {
+    interface TypeA { tags: Map<"a", Set<"x">>; load: Promise<"ok">; at: Date; }
+    interface TypeB { tags: Map<"b", Set<"y">>; load: Promise<"err">; at: Date; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: IsIdentical<Result, { tags: Map<string, Set<string>>; load: Promise<string>; at: Date }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should unify across a tuple of types", () => {
+    type Result = CommonUpcastProps<[{ s: Set<"a"> }, { s: Set<"b"> }, { s: ReadonlySet<"c"> }]>;
+    const value: Result = { s: new Set(["a"]) };
+
+    expect(value.s.has("a")).to.equal(true);
+  });
+
+  test("should recurse into type arguments in deep mode", () => {
+    interface TypeA { byId: Map<string, { id: string; a: 1 }>; at: Date; }
+    interface TypeB { byId: Map<string, { id: string; b: 1 }>; at: { iso: string }; }
+
+    type Result = CommonDeepUpcastPairs<TypeA, TypeB>;
+    const value: Result = { byId: new Map([["1", { id: "1" }]]) };
+
+    expect(value.byId.get("1")?.id).to.equal("1");
+    expect(value).to.not.have.property("at");
+  });
+});
@@ -0,0 +1,70 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { DiscriminatedBy, Discriminants, IsDistinctLiterals, IsIdentical } from "../src/index.ts";
+
+interface Cat { type: "cat"; kind: 1; legs: 4; name: string; }
+interface Dog { type: "dog"; kind: 2; legs: 4; name: string; }
+interface Bird { type: "bird"; kind: 3; legs: 2; name: string; wings?: 2; }
+
+describe("IsDistinctLiterals", () => {
+  test("should accept disjoint literals and literal unions", () => {
+    const result: IsDistinctLiterals<["cat", "dog" | "puppy", 1]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should reject repeated or non-literal values", () => {
+    const repeated: IsDistinctLiterals<["cat", "dog", "cat" | "kitten"]> = false;
+    const wide: IsDistinctLiterals<["cat", string]> = false;
+    const boolean: IsDistinctLiterals<[true, boolean]> = false;
+
+    expect([repeated, wide, boolean]).to.deep.equal([false, false, false]);
+  });
+});
+
+describe("Discriminants", () => {
+  test("should get the keys with a distinct literal per type", () => {
+    const result: IsIdentical<Discriminants<[Cat, Dog, Bird]>, "type" | "kind"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should skip keys that are optional in any type", () => {
+    interface Fish { type: "fish"; kind: 4; legs: 0; name: string; wings?: 0; }
+    const result: IsIdentical<Discriminants<[Bird, Fish]>, "type" | "kind" | "legs"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should accept a union of variants", () => {
+    const result: IsIdentical<Discriminants<(Cat | Dog)[]>, "type" | "kind"> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should be never when nothing tells the types apart", () => {
+    const result: IsIdentical<Discriminants<[Cat, Cat]>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("DiscriminatedBy", () => {
+  test("should give the union for a valid discriminant", () => {
+    type Animal = DiscriminatedBy<[Cat, Dog, Bird], "type">;
+    const result: IsIdentical<Animal, Cat | Dog | Bird> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should reject keys that are not discriminants", () => {
+    // @ts-expect-error Cat and Dog share legs: 4
+    type Legs = DiscriminatedBy<[Cat, Dog, Bird], "legs">;
+    // @ts-expect-error name is not a literal
+    type Name = DiscriminatedBy<[Cat, Dog, Bird], "name">;
+    const legs: Legs = { type: "cat", kind: 1, legs: 4, name: "Tom" };
+    const name: Name = { type: "dog", kind: 2, legs: 4, name: "Rex" };
+
+    expect([legs.legs, name.legs]).to.deep.equal([4, 4]);
+  });
+});
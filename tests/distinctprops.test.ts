@@ -0,0 +1,56 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { DistinctProps, IsIdentical, VariantOnlyProps } from "../src/index.ts";
+
+interface Cat { name: string; type: "cat"; readonly meows: true; owner?: string; }
+interface Dog { name: string; type: "dog"; barks: true; }
+
+describe("VariantOnlyProps", () => {
+  test("should keep the properties beyond the strict result", () => {
+    type Result = VariantOnlyProps<[Cat, Dog], 0>;
+    const result: IsIdentical<Result, { type: "cat"; readonly meows: true; owner?: string }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should follow the mode", () => {
+    type Result = VariantOnlyProps<[Cat, Dog], 1, "upcast">;
+    const result: IsIdentical<Result, { barks: true }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should accept readonly tuples", () => {
+    type Result = VariantOnlyProps<readonly [Cat, Dog], 1, "upcast">;
+    const result: IsIdentical<Result, { barks: true }> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("DistinctProps", () => {
+  test("should map a tuple by position", () => {
+    type Result = DistinctProps<[Cat, Dog], "upcast">;
+    const result: IsIdentical<Result, [{ readonly meows: true; owner?: string }, { barks: true }]> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should map named types by name", () => {
+    type Result = DistinctProps<{ Cat: Cat; Dog: Dog }>;
+    const result: IsIdentical<Result, {
+      Cat: { type: "cat"; readonly meows: true; owner?: string };
+      Dog: { type: "dog"; barks: true };
+    }> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should be empty for types without extra properties", () => {
+    type Result = DistinctProps<[{ a: 1 }, { a: 1 }]>;
+    const first: IsIdentical<Result[0], {}> = true;
+    const second: IsIdentical<Result[1], {}> = true;
+
+    expect([first, second]).to.deep.equal([true, true]);
+  });
+});
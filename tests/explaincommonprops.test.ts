@@ -0,0 +1,86 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonPartialProps, CommonStrictProps, CommonUpcastProps, ExplainCommonProps, IsIdentical } from "../src/index.ts";
+
+describe("ExplainCommonProps", () => {
+  interface Cat { name: string; type: "cat"; lives: 9; }
+  interface Dog { name: string; type: "dog"; lives: 1; }
+  interface Bird { name: string; type: 1; }
+
+  test("should explain included properties", () => {
+    type Result = ExplainCommonProps<[Cat, Dog, Bird], "upcast">;
+    const name: Result["name"] = { status: "included", type: "any string" };
+
+    expect(name.status).to.equal("included");
+  });
+
+  test("should list the indices of types missing a property", () => {
+    type Result = ExplainCommonProps<[Cat, Dog, Bird], "upcast">;
+    const lives: Result["lives"] = { status: "missing", in: [2] };
+    // @ts-expect-error only index 2 is missing lives
+    const wrong: Result["lives"] = { status: "missing", in: [0] };
+
+    expect(lives.in).to.deep.equal([2]);
+    expect(wrong.in).to.deep.equal([0]);
+  });
+
+  test("should list the types of conflicting properties", () => {
+    type Result = ExplainCommonProps<[Cat, Dog, Bird], "upcast">;
+    const type: Result["type"] = { status: "conflict", types: ["cat", "dog", 1] };
+
+    expect(type.types).to.deep.equal(["cat", "dog", 1]);
+  });
+
+  test("should follow the strict mode rules", () => {
+    type Result = ExplainCommonProps<[Cat, Dog], "strict">;
+    const type: Result["type"] = { status: "conflict", types: ["cat", "dog"] };
+    const lives: Result["lives"] = { status: "conflict", types: [9, 1] };
+
+    expect(type.status).to.equal("conflict");
+    expect(lives.status).to.equal("conflict");
+  });
+
+  test("should follow the upcast mode rules", () => {
+    type Result = ExplainCommonProps<[Cat, Dog], "upcast">;
+    const type: Result["type"] = { status: "included", type: "any string" };
+    const lives: Result["lives"] = { status: "included", type: 42 };
+
+    expect(type.status).to.equal("included");
+    expect(lives.status).to.equal("included");
+  });
+
+  test("should follow the union mode rules", () => {
+    type Result = ExplainCommonProps<[Cat, Dog, Bird], "union">;
+    const type: Result["type"] = { status: "included", type: 1 };
+    // @ts-expect-error 'fish' is not one of the variant values
+    const wrong: Result["type"] = { status: "included", type: "fish" };
+
+    expect(type.type).to.equal(1);
+    expect(wrong.type).to.equal("fish");
+  });
+
+  test("should agree with the actual result", () => {
+    type Upcast = CommonUpcastProps<[Cat, Dog, Bird]>;
+    type Strict = CommonStrictProps<[Cat, Dog]>;
+    type UpcastExplained = ExplainCommonProps<[Cat, Dog, Bird], "upcast">["name"]["type"];
+    type StrictExplained = ExplainCommonProps<[Cat, Dog], "strict">["name"]["type"];
+    const upcast: Upcast = { name: "rex" };
+    const strict: Strict = { name: "rex" };
+    const upcastName: UpcastExplained = upcast.name;
+    const strictName: StrictExplained = strict.name;
+
+    expect(upcastName).to.equal("rex");
+    expect(strictName).to.equal("rex");
+  });
+
+  test("should pair values the same way as the tuple types", () => {
+    type Variants = [{ f: () => "a"; }, { f: () => "b"; }, { f: () => 1; }, { f: () => 2; }];
+    type Actual = CommonUpcastProps<Variants>["f"];
+
+    const actual: IsIdentical<Actual, () => string | number> = true;
+    const explained: IsIdentical<ExplainCommonProps<Variants, "upcast">["f"]["type"], Actual> = true;
+    const partial: IsIdentical<CommonPartialProps<Variants>["f"], Actual> = true;
+
+    expect([actual, explained, partial]).to.deep.equal([true, true, true]);
+  });
+});
@@ -0,0 +1,164 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonUpcastPairs, CommonUpcastProps, FunctionUnify, IsIdentical } from "../src/index.ts";
+import type { FunctionSignatures, IntersectParameters } from "../src/internal.ts";
+
+interface ClickEvent { x: number; y: number }
+interface KeyEvent { key: string }
+
+interface Parse {
+  (input: string): number;
+  (input: string, radix: number): number;
+}
+
+interface FormatA {
+  (value: "short"): "a";
+  (value: number, width: number): 1;
+}
+
+interface FormatB {
+  (value: string): "b";
+  (value: number, width?: number): 2;
+}
+
+describe("FunctionSignatures", () => {
+  test("should list overloads in declaration order", () => {
+    type Result = FunctionSignatures<Parse>;
+    const result: Result = [(input): number => input.length, (input, radix): number => parseInt(input, radix)];
+
+    expect(result).to.have.length(2);
+  });
+
+  test("should list a single signature once", () => {
+    type Result = FunctionSignatures<(a: string) => void>["length"];
+    const result: Result = 1;
+
+    expect(result).to.equal(1);
+  });
+});
+
+describe("IntersectParameters", () => {
+  test("should intersect parameters and keep extra optional ones", () => {
+    type Result = IntersectParameters<[e: ClickEvent], [e: KeyEvent, extra?: string]>;
+    const result: Result = [{ x: 1, y: 2, key: "a" }];
+    // @ts-expect-error parameters are intersected
+    const partial: Result = [{ x: 1, y: 2 }];
+
+    expect(result).to.have.length(1);
+    expect(partial).to.have.length(1);
+  });
+
+  test("should require a parameter that either list requires", () => {
+    type Result = IntersectParameters<[a: string, b?: number], [a: string, b: number]>;
+    const result: Result = ["a", 1];
+    // @ts-expect-error second parameter is required
+    const short: Result = ["a"];
+
+    expect(result).to.have.length(2);
+    expect(short).to.have.length(1);
+  });
+
+  test("should fail for rest parameters", () => {
+    type Result = IntersectParameters<string[], [a: string]>;
+    // @ts-expect-error Cannot assign to never type
+    const result: Result = ["a"];
+
+    expect(result).to.have.length(1);
+  });
+});
+
+describe("FunctionUnify", () => {
+  test("should intersect parameters and upcast return types", () => {
+    type Result = FunctionUnify<(e: ClickEvent) => "ok", (e: KeyEvent) => "err">[0];
+    const result: Result = (e) => `${e.key}@${e.x},${e.y}`;
+
+    expect(result({ x: 1, y: 2, key: "a" })).to.equal("a@1,2");
+  });
+
+  test("should union return types that cannot be upcast", () => {
+    type Result = FunctionUnify<() => number, () => string>[0];
+    const result: Result = () => 1;
+    const other: Result = () => "a";
+
+    expect(result()).to.equal(1);
+    expect(other()).to.equal("a");
+  });
+
+  test("should widen return literals that cannot be upcast", () => {
+    const result: IsIdentical<FunctionUnify<() => "a", () => 1>[0], () => string | number> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should pair overloads by position", () => {
+    type Result = FunctionUnify<FormatA, FormatB>[0];
+    const result: Result = ((value: number | string) => typeof value === "number" ? value : "x") as Result;
+    const text: string = result("short");
+    const count: number = result(1, 2);
+    // @ts-expect-error width is required by the first function
+    result(1);
+
+    expect(text).to.equal("x");
+    expect(count).to.equal(1);
+  });
+
+  test("should skip overload pairs that cannot be called", () => {
+    type Result = FunctionUnify<Parse, (input: string) => number>[0];
+    const result: Result = (input) => input.length;
+
+    expect(result("abc")).to.equal(3);
+  });
+});
+
+describe("CommonUpcastPairs with functions", () => {
+  test("should keep callback properties", () => {
+    type Result = CommonUpcastPairs<
+      { onEvent: (e: ClickEvent) => "ok" },
+      { onEvent: (e: KeyEvent) => "err" }
+    >;
+    const result: Result = { onEvent: (e) => e.key };
+
+    expect(result.onEvent({ x: 1, y: 2, key: "a" })).to.equal("a");
+  });
+
+  test("should keep methods shared by class instances", () => {
+    class Cat {
+      name = "cat";
+      speak(volume: number): "meow" { return volume > 0 ? "meow" : "meow"; }
+    }
+    class Dog {
+      name = "dog";
+      speak(volume: number, times?: number): "woof" { return volume > 0 && (times ?? 1) > 0 ? "woof" : "woof"; }
+    }
+    type Result = CommonUpcastProps<[Cat, Dog]>;
+    const result: Result = new Dog();
+
+    expect(result.speak(1)).to.equal("woof");
+  });
+
+  test("should not depend on the order of the types", () => {
+    interface TypeA { f: () => "a"; }
+    interface TypeB { f: () => 1; }
+    interface TypeC { f: () => "b"; }
+    type Expected = { f: () => string | number };
+
+    const results: [
+      IsIdentical<CommonUpcastProps<[TypeA, TypeB, TypeC]>, Expected>,
+      IsIdentical<CommonUpcastProps<[TypeA, TypeC, TypeB]>, Expected>,
+      IsIdentical<CommonUpcastProps<[TypeB, TypeA, TypeC]>, Expected>,
+      IsIdentical<CommonUpcastProps<[TypeB, TypeC, TypeA]>, Expected>,
+      IsIdentical<CommonUpcastProps<[TypeC, TypeA, TypeB]>, Expected>,
+      IsIdentical<CommonUpcastProps<[TypeC, TypeB, TypeA]>, Expected>,
+    ] = [true, true, true, true, true, true];
+
+    expect(results).to.deep.equal([true, true, true, true, true, true]);
+  });
+
+  test("should not mix functions with other types", () => {
+    type Result = CommonUpcastPairs<{ a: () => void; b: 1 }, { a: string; b: 2 }>;
+    // @ts-expect-error a is excluded
+    const result: Result = { a: "x", b: 3 };
+
+    expect(result.b).to.equal(3);
+  });
+});
@@ -0,0 +1,153 @@
+import { test, describe, beforeAll, afterAll } from "vitest";
+import { expect } from "chai";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import ts from "typescript";
+import { generateDeclaration } from "../src/generate.ts";
+
+const ANIMALS = `
+export interface Cat { name: string; readonly type: 'cat'; legs: 4; owner?: { id: string }; speak(): 'meow' }
+export interface Dog { name: string; type: 'dog'; legs: 4; owner?: { id: string }; speak(): 'woof' }
+export type Bird = { name: string; type: 'bird'; legs: 2; owner: { id: string } | null; speak(): 'tweet' };
+export type Id = 'a' | 'b';
+`;
+
+const PETS = `
+export interface Meta { id: string }
+interface Secret { key: string }
+export interface Cat { name: string; meta: Meta; secret: Secret; info: { kind: 'cat'; id: string; tags: { a: 1 }[] } }
+export interface Dog { name: string; meta: Meta; secret: Secret; info: { kind: 'dog'; id: string; tags: { b: 1 }[] } }
+export type Fish = Omit<Cat, 'secret'>;
+export type Bird = Omit<Dog, 'secret'>;
+`;
+
+/**
+ * Type-checks a generated file.
+ *
+ * @param path Path of the file to check
+ * @returns The diagnostic messages
+ */
+function check(path: string): string[] {
+  const program = ts.createProgram([path], {
+    strict: true,
+    noEmit: true,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    skipLibCheck: true,
+  });
+  return ts.getPreEmitDiagnostics(program).map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
+}
+
+describe("generateDeclaration", () => {
+  let dir: string;
+  let file: string;
+  let pets: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), "commonprops-"));
+    file = join(dir, "animals.ts");
+    writeFileSync(file, ANIMALS);
+    pets = join(dir, "pets.ts");
+    writeFileSync(pets, PETS);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("should print strict mode as an interface", () => {
+    const result = generateDeclaration({ file, types: ["Cat", "Dog"] });
+
+    expect(result).to.equal([
+      "export interface Common {",
+      "    name: string;",
+      "    legs: 4;",
+      "    owner?: {",
+      "        id: string;",
+      "    };",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should use the mode and name", () => {
+    const result = generateDeclaration({ file, types: ["Cat", "Dog", "Bird"], mode: "upcast", name: "Animal" });
+
+    expect(result).to.equal([
+      "export interface Animal {",
+      "    readonly type: string;",
+      "    name: string;",
+      "    legs: number;",
+      "    speak: () => string;",
+      "    owner?: {",
+      "        id: string;",
+      "    } | null;",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should print other results as a type alias", () => {
+    const result = generateDeclaration({ file, types: ["Id"] });
+
+    expect(result).to.equal("export type Common = \"a\" | \"b\";");
+  });
+
+  test("should print deep upcast mode with nested results inline", () => {
+    const result = generateDeclaration({ file: pets, types: ["Fish", "Bird"], mode: "deepUpcast" });
+    const out = join(dir, "deepupcast.ts");
+    writeFileSync(out, result);
+
+    expect(result).to.equal([
+      "import type { Meta } from \"./pets\";",
+      "",
+      "export interface Common {",
+      "    name: string;",
+      "    meta: Meta;",
+      "    info: {",
+      "        kind: string;",
+      "        id: string;",
+      "        tags: {}[];",
+      "    };",
+      "}",
+    ].join("\n"));
+    expect(check(out)).to.deep.equal([]);
+  });
+
+  test("should print deep strict mode with nested results inline", () => {
+    const result = generateDeclaration({ file: pets, types: ["Fish", "Bird"], mode: "deepStrict" });
+    const out = join(dir, "deepstrict.ts");
+    writeFileSync(out, result);
+
+    expect(result).to.equal([
+      "import type { Meta } from \"./pets\";",
+      "",
+      "export interface Common {",
+      "    name: string;",
+      "    meta: Meta;",
+      "    info: {",
+      "        id: string;",
+      "        tags: {}[];",
+      "    };",
+      "}",
+    ].join("\n"));
+    expect(check(out)).to.deep.equal([]);
+  });
+
+  test("should import named types relative to the output file", () => {
+    mkdirSync(join(dir, "out"), { recursive: true });
+    const out = join(dir, "out", "pet.ts");
+    const result = generateDeclaration({ file: pets, types: ["Fish", "Bird"], name: "Pet", out });
+    writeFileSync(out, result);
+
+    expect(result.split("\n")[0]).to.equal("import type { Meta } from \"../pets\";");
+    expect(check(out)).to.deep.equal([]);
+  });
+
+  test("should throw for named types that are not exported", () => {
+    expect(() => generateDeclaration({ file: pets, types: ["Cat", "Dog"] })).to.throw(/Secret, which is not exported/);
+  });
+
+  test("should throw the diagnostics for unknown types", () => {
+    expect(() => generateDeclaration({ file, types: ["Cat", "Fish"] })).to.throw(/Fish/);
+  });
+}, 60_000);
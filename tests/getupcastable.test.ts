@@ -1,6 +1,6 @@
 import { test, describe } from "vitest";
 import { expect } from "chai";
-import type { GetUpcastable } from "../src/index.ts";
+import type { GetUpcastable, IsIdentical } from "../src/index.ts";
 
 describe("GetUpcastable", () => {
   test("should return primitive types for string types", () => {
@@ -102,4 +102,58 @@ describe("GetUpcastable", () => {
     const unionBooleanChk: UnionBoolean = false;
     expect(typeof unionBooleanChk).to.equal("boolean");
   });
-});
\ No newline at end of file
+
+  test("should keep null and undefined in unions", () => {
+    // Nullable literal should return a nullable string.
+    type NullableType = GetUpcastable<"hello" | null>;
+    const nullableChk: NullableType = null;
+    const stringChk: NullableType = "any string";
+    // @ts-expect-error undefined is not part of the type
+    const undefinedChk: NullableType = undefined;
+    void expect(nullableChk).to.be.null;
+    expect(typeof stringChk).to.equal("string");
+    void expect(undefinedChk).to.be.undefined;
+  });
+
+  test("should return bigint for bigint literals", () => {
+    type BigintType = GetUpcastable<1n>;
+    const bigintChk: BigintType = 99n;
+    expect(typeof bigintChk).to.equal("bigint");
+  });
+
+  test("should return symbol for unique symbols", () => {
+    const sym: unique symbol = Symbol("sym");
+    type SymbolType = GetUpcastable<typeof sym>;
+    const symbolChk: SymbolType = sym;
+    expect(typeof symbolChk).to.equal("symbol");
+  });
+
+  test("should return string for template literal patterns", () => {
+    type TemplateType = GetUpcastable<`user-${string}`>;
+    const templateChk: TemplateType = "any string";
+    expect(typeof templateChk).to.equal("string");
+  });
+
+  test("should return the primitive for enum members", () => {
+    enum Color { Red = "red" }
+    enum Level { Low, High }
+
+    type StringMemberType = GetUpcastable<Color.Red>;
+    const stringMemberChk: StringMemberType = "any string";
+    expect(typeof stringMemberChk).to.equal("string");
+
+    type NumericMemberType = GetUpcastable<Level.High>;
+    const numericMemberChk: NumericMemberType = 999;
+    expect(typeof numericMemberChk).to.equal("number");
+  });
+
+  test("should widen enum members directly, not to their enum", () => {
+    enum Color { Red = "red", Blue = "blue" }
+    enum Level { Low, High }
+
+    // The enum of a member is not known, so both kinds skip the enum type.
+    const stringChk: IsIdentical<GetUpcastable<Color.Red>, string> = true;
+    const numericChk: IsIdentical<GetUpcastable<Level.High>, number> = true;
+    expect([stringChk, numericChk]).to.deep.equal([true, true]);
+  });
+});
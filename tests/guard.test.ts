@@ -0,0 +1,168 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import {
+  assertCommon, commonGuard, CommonShapeError, sampleGuard, shapeGuard,
+  type CommonUpcastProps, type Described, type IsIdentical, type TypeNameOf,
+} from "../src/index.ts";
+
+interface Cat { name: string; type: "cat"; lives: 9; owner?: { id: string }; tags: string[] }
+interface Dog { name: string; type: "dog"; good: true; owner?: { id: string }; tags: string[] }
+
+describe("TypeNameOf", () => {
+  test("should name types by their typeof", () => {
+    const union: IsIdentical<TypeNameOf<"cat" | null>, "string" | "null"> = true;
+    const array: IsIdentical<TypeNameOf<readonly string[]>, "array"> = true;
+    const fn: IsIdentical<TypeNameOf<() => void>, "function"> = true;
+
+    expect([union, array, fn]).to.deep.equal([true, true, true]);
+  });
+});
+
+describe("Described", () => {
+  test("should make keys that allow undefined optional", () => {
+    type Result = Described<{ name: "string"; owner: readonly ["object", "undefined"] }>;
+    const result: IsIdentical<Result, { name: string; owner?: object | undefined }> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("shapeGuard", () => {
+  const isAnimal = shapeGuard({ name: "string", owner: ["object", "null"], meta: { born: "number" } });
+
+  test("should narrow matching values", () => {
+    const value: unknown = { name: "Tom", owner: null, meta: { born: 2020 }, extra: true };
+
+    expect(isAnimal(value)).to.equal(true);
+    if (isAnimal(value)) {
+      const name: string = value.name;
+      const born: number = value.meta.born;
+      expect([name, born]).to.deep.equal(["Tom", 2020]);
+    }
+  });
+
+  test("should list missing keys and wrong types", () => {
+    expect(isAnimal({ name: 1, meta: {} })).to.equal(false);
+    expect(isAnimal.issues({ name: 1, meta: {} })).to.deep.equal({
+      missing: ["owner", "meta.born"],
+      mismatched: [{ path: "name", expected: "string", actual: "number" }],
+    });
+    expect(isAnimal.issues([])).to.deep.equal({
+      missing: [],
+      mismatched: [{ path: "", expected: "object", actual: "array" }],
+    });
+  });
+
+  test("should allow keys that accept undefined to be missing", () => {
+    const isNamed = shapeGuard({ name: ["string", "undefined"] });
+
+    expect(isNamed({})).to.equal(true);
+    expect(isNamed({ name: null })).to.equal(false);
+  });
+});
+
+describe("commonGuard", () => {
+  const isAnimal = commonGuard<CommonUpcastProps<[Cat, Dog]>>()({
+    name: "string",
+    type: "string",
+    owner: ["object", "undefined"],
+    tags: "array",
+  });
+
+  test("should narrow to the type", () => {
+    const value: unknown = { name: "Tom", type: "cat", tags: [] };
+
+    expect(isAnimal(value)).to.equal(true);
+    if (isAnimal(value)) {
+      const result: IsIdentical<typeof value, CommonUpcastProps<[Cat, Dog]>> = true;
+      expect(result).to.equal(true);
+    }
+  });
+
+  test("should check literals, arrays and objects by their typeof only", () => {
+    const isThing = commonGuard<{ legs: 4; meta: { id: string }; tags: string[] }>()({
+      legs: "number",
+      meta: "object",
+      tags: "array",
+    });
+    const value: unknown = { legs: 5, meta: {}, tags: [1] };
+
+    expect(isThing(value)).to.equal(true);
+    if (isThing(value)) {
+      const result: IsIdentical<typeof value, { legs: 4; meta: { id: string }; tags: string[] }> = true;
+      expect(result).to.equal(true);
+    }
+  });
+
+  test("should check nested descriptors", () => {
+    const isOwned = commonGuard<{ owner: { id: string } }>()({ owner: { id: "string" } });
+
+    expect(isOwned({ owner: { id: 1 } })).to.equal(false);
+  });
+
+  test("should reject descriptors that drift from the type", () => {
+    const guard = commonGuard<CommonUpcastProps<[Cat, Dog]>>();
+
+    // @ts-expect-error name is a string, not a number
+    guard({ name: "number", type: "string", owner: ["object", "undefined"], tags: "array" });
+    // @ts-expect-error owner is optional, so undefined must be allowed
+    guard({ name: "string", type: "string", owner: "object", tags: "array" });
+    // @ts-expect-error tags is missing
+    guard({ name: "string", type: "string", owner: ["object", "undefined"] });
+    // @ts-expect-error lives is not a common property
+    guard({ name: "string", type: "string", owner: ["object", "undefined"], tags: "array", lives: "number" });
+    // @ts-expect-error id is a string
+    commonGuard<{ owner: { id: string } }>()({ owner: { id: "number" } });
+    // @ts-expect-error legs is a number literal, not a string
+    commonGuard<{ legs: 4 }>()({ legs: "string" });
+    // @ts-expect-error tags is an array, not an object
+    commonGuard<{ tags: string[] }>()({ tags: "object" });
+    // @ts-expect-error meta is an object, not an array
+    commonGuard<{ meta: { id: string } }>()({ meta: "array" });
+  });
+});
+
+describe("sampleGuard", () => {
+  test("should check the literals kept by the mode", () => {
+    const isAnimal = sampleGuard([{ type: "cat", legs: 4 }, { type: "dog", legs: 4 }], "upcast");
+
+    expect(isAnimal({ type: "bird", legs: 4 })).to.equal(true);
+    expect(isAnimal.issues({ type: "bird", legs: 2 })).to.deep.equal({
+      missing: [],
+      mismatched: [{ path: "legs", expected: "4", actual: "number" }],
+    });
+  });
+
+  test("should check array elements by path", () => {
+    const isTagged = sampleGuard([{ tags: ["a"] }, { tags: ["b", "c"] }], "upcast");
+
+    expect(isTagged.issues({ tags: ["a", 1] }).mismatched).to.deep.equal([
+      { path: "tags[1]", expected: "string", actual: "number" },
+    ]);
+  });
+});
+
+describe("assertCommon", () => {
+  const isAnimal = shapeGuard({ name: "string", legs: "number" });
+
+  test("should narrow matching values", () => {
+    const value: unknown = { name: "Tom", legs: 4 };
+    assertCommon(isAnimal, value);
+    const legs: number = value.legs;
+
+    expect(legs).to.equal(4);
+  });
+
+  test("should throw a structured error", () => {
+    try {
+      assertCommon(isAnimal, { legs: "4" });
+      expect.fail("expected an error");
+    } catch (error) {
+      expect(error).to.be.instanceOf(CommonShapeError);
+      const { message, missing, mismatched } = error as CommonShapeError;
+      expect(message).to.equal("Missing keys: name; Wrong types: legs (expected number, got string)");
+      expect(missing).to.deep.equal(["name"]);
+      expect(mismatched).to.deep.equal([{ path: "legs", expected: "number", actual: "string" }]);
+    }
+  });
+});
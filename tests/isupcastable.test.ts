@@ -93,4 +93,85 @@ describe("IsUpcastable", () => {
     const mixedUnionChk: MixedUnion = false;
     expect(mixedUnionChk).to.equal(false);
   });
-});
\ No newline at end of file
+  test("should ignore null and undefined in unions", () => {
+    // Nullable literal.
+    type NullableChk = IsUpcastable<"hello" | null>;
+    const nullableChk: NullableChk = true;
+    expect(nullableChk).to.equal(true);
+
+    // Optional literal.
+    type OptionalChk = IsUpcastable<1 | undefined>;
+    const optionalChk: OptionalChk = true;
+    expect(optionalChk).to.equal(true);
+
+    // Nullable primitive, not a literal.
+    type NullableStringChk = IsUpcastable<string | null>;
+    const nullableStringChk: NullableStringChk = false;
+    expect(nullableStringChk).to.equal(false);
+
+    // Only nullish.
+    type NullishChk = IsUpcastable<null | undefined>;
+    const nullishChk: NullishChk = false;
+    expect(nullishChk).to.equal(false);
+  });
+  test("should identify bigint literals", () => {
+    // Bigint literal.
+    type OneChk = IsUpcastable<1n>;
+    const oneChk: OneChk = true;
+    expect(oneChk).to.equal(true);
+
+    // Bigint type, not a literal.
+    type BigintChk = IsUpcastable<bigint>;
+    const bigintChk: BigintChk = false;
+    expect(bigintChk).to.equal(false);
+  });
+  test("should identify unique symbols", () => {
+    const sym: unique symbol = Symbol("sym");
+
+    // Unique symbol.
+    type UniqueChk = IsUpcastable<typeof sym>;
+    const uniqueChk: UniqueChk = true;
+    expect(uniqueChk).to.equal(true);
+    expect(typeof sym).to.equal("symbol");
+
+    // Symbol type, not unique.
+    type SymbolChk = IsUpcastable<symbol>;
+    const symbolChk: SymbolChk = false;
+    expect(symbolChk).to.equal(false);
+  });
+  test("should identify template literal patterns", () => {
+    // Template literal with a string placeholder.
+    type UserChk = IsUpcastable<`user-${string}`>;
+    const userChk: UserChk = true;
+    expect(userChk).to.equal(true);
+
+    // Template literal with a number placeholder.
+    type NumericChk = IsUpcastable<`${number}px`>;
+    const numericChk: NumericChk = true;
+    expect(numericChk).to.equal(true);
+  });
+  test("should identify enum members", () => {
+    enum Color { Red = "red", Blue = "blue" }
+    enum Level { Low, High }
+
+    // String enum member.
+    type StringMemberChk = IsUpcastable<Color.Red>;
+    const stringMemberChk: StringMemberChk = true;
+    expect(stringMemberChk).to.equal(true);
+
+    // Numeric enum member.
+    type NumericMemberChk = IsUpcastable<Level.Low>;
+    const numericMemberChk: NumericMemberChk = true;
+    expect(numericMemberChk).to.equal(true);
+
+    // Whole numeric enum.
+    type NumericEnumChk = IsUpcastable<Level>;
+    const numericEnumChk: NumericEnumChk = true;
+    expect(numericEnumChk).to.equal(true);
+
+    // Whole string enum.
+    type StringEnumChk = IsUpcastable<Color>;
+    const stringEnumChk: StringEnumChk = true;
+    expect(stringEnumChk).to.equal(true);
+  });
+});
@@ -0,0 +1,121 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import { commonKeys, pickCommon, strictMatch, upcastMatch } from "../src/index.ts";
+import type { IsIdentical } from "../src/index.ts";
+
+describe("commonKeys", () => {
+  test("should return the keys shared by all objects", () => {
+    const result = commonKeys({ a: 1, b: 2 }, { b: 3, c: 4 }, { b: 5, a: 6 });
+    const typed: "b"[] = result;
+
+    expect(typed).to.deep.equal(["b"]);
+  });
+
+  test("should return an empty array without objects", () => {
+    expect(commonKeys()).to.deep.equal([]);
+  });
+});
+
+describe("strictMatch", () => {
+  test("should compare primitives with Object.is", () => {
+    expect(strictMatch("a", "a")).to.equal(true);
+    expect(strictMatch(NaN, NaN)).to.equal(true);
+    expect(strictMatch(1, "1")).to.equal(false);
+  });
+
+  test("should compare arrays and plain objects structurally", () => {
+    expect(strictMatch([1, { a: 2 }], [1, { a: 2 }])).to.equal(true);
+    expect(strictMatch({ a: 1 }, { a: 1, b: 2 })).to.equal(false);
+    expect(strictMatch(new Date(0), new Date(0))).to.equal(false);
+  });
+});
+
+describe("upcastMatch", () => {
+  test("should match primitives with the same typeof", () => {
+    expect(upcastMatch("cat", "dog")).to.equal(true);
+    expect(upcastMatch(1, 2)).to.equal(true);
+    expect(upcastMatch(true, false)).to.equal(true);
+    expect(upcastMatch(1, "1")).to.equal(false);
+  });
+
+  test("should only match null and undefined with themselves", () => {
+    expect(upcastMatch(null, null)).to.equal(true);
+    expect(upcastMatch(null, "a")).to.equal(false);
+    expect(upcastMatch(undefined, null)).to.equal(false);
+  });
+
+  test("should match arrays element-wise or by element type", () => {
+    expect(upcastMatch(["a", 1], ["b", 2])).to.equal(true);
+    expect(upcastMatch(["a", "b"], ["c"])).to.equal(true);
+    expect(upcastMatch(["a"], [1])).to.equal(false);
+  });
+
+  test("should not recurse into objects", () => {
+    expect(upcastMatch({ a: 1 }, { a: 1 })).to.equal(true);
+    expect(upcastMatch({ a: 1 }, { a: 2 })).to.equal(false);
+  });
+
+  test("should match other objects with the same prototype", () => {
+    expect(upcastMatch(new Date(0), new Date(1))).to.equal(true);
+    expect(upcastMatch(new Map([["a", 1]]), new Map())).to.equal(true);
+    expect(upcastMatch(new Date(0), new Map())).to.equal(false);
+    expect(upcastMatch(new Date(0), { a: 1 })).to.equal(false);
+  });
+});
+
+describe("pickCommon", () => {
+  test("should keep equal values in strict mode", () => {
+    const [cat, dog] = pickCommon([
+      { name: "Tom", legs: 4, type: "cat" },
+      { name: "Rex", legs: 4, type: "dog" },
+    ]);
+    const legs: 4 = dog.legs;
+
+    expect(cat).to.deep.equal({ legs: 4 });
+    expect(legs).to.equal(4);
+  });
+
+  test("should keep values with the same primitive type in upcast mode", () => {
+    const [cat, dog] = pickCommon([
+      { name: "Tom", type: "cat", lives: 9 },
+      { name: "Rex", type: "dog", good: true },
+    ], { mode: "upcast" });
+    const type: string = cat.type;
+
+    expect(cat).to.deep.equal({ name: "Tom", type: "cat" });
+    expect(dog).to.deep.equal({ name: "Rex", type: "dog" });
+    expect(type).to.equal("cat");
+  });
+
+  test("should drop keys whose values do not unify", () => {
+    const picked = pickCommon([{ id: 1, tag: "a" }, { id: "2", tag: "b" }], { mode: "upcast" });
+    // @ts-expect-error id excluded: number and string do not unify
+    const id: unknown = picked[0].id;
+
+    expect(picked).to.deep.equal([{ tag: "a" }, { tag: "b" }]);
+    expect(id).to.equal(undefined);
+  });
+
+  test("should make keys optional where the values decide", () => {
+    interface Event { name: string; at: Date; }
+    const first: Event = { name: "a", at: new Date(0) };
+    const second: Event = { name: "b", at: new Date(1) };
+
+    const strict = pickCommon([first, second]);
+    const upcast = pickCommon([first, second], { mode: "upcast" });
+    const strictTyped: IsIdentical<typeof strict[0], { name?: string; at?: Date; }> = true;
+    const upcastTyped: IsIdentical<typeof upcast[0], { name: string; at?: Date; }> = true;
+
+    expect(strict).to.deep.equal([{}, {}]);
+    expect(upcast).to.deep.equal([{ name: "a", at: new Date(0) }, { name: "b", at: new Date(1) }]);
+    expect([strictTyped, upcastTyped]).to.deep.equal([true, true]);
+  });
+
+  test("should return new objects", () => {
+    const source = { a: 1 };
+    const [picked] = pickCommon([source]);
+
+    expect(picked).to.deep.equal(source);
+    expect(picked).to.not.equal(source);
+  });
+});
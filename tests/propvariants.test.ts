@@ -0,0 +1,50 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { IsIdentical, LabeledVariants, PropVariants } from "../src/index.ts";
+
+interface Low { name: string; priority: 1; note?: "low"; }
+interface Mid { name: string; priority: 2; note?: "mid"; }
+interface High { name: string; priority: 3; urgent: true; }
+
+describe("PropVariants", () => {
+  test("should list the value types of each common key in input order", () => {
+    type Result = PropVariants<[Low, Mid, High]>;
+    const name: IsIdentical<Result["name"], [string, string, string]> = true;
+    const priority: IsIdentical<Result["priority"], [1, 2, 3]> = true;
+
+    expect([name, priority]).to.deep.equal([true, true]);
+  });
+
+  test("should only include the keys common in the mode", () => {
+    const upcast: IsIdentical<keyof PropVariants<[Low, Mid, High]>, "name" | "priority"> = true;
+    const strict: IsIdentical<keyof PropVariants<[Low, Mid, High], "strict">, "name"> = true;
+
+    expect([upcast, strict]).to.deep.equal([true, true]);
+  });
+
+  test("should list the declared types of optional properties", () => {
+    type Result = PropVariants<[Low, Mid]>;
+    const note: IsIdentical<Result["note"], ["low", "mid"]> = true;
+
+    expect(note).to.equal(true);
+  });
+});
+
+describe("LabeledVariants", () => {
+  test("should key the value types by name", () => {
+    type Result = LabeledVariants<{ low: Low; mid: Mid; high: High }>;
+    const priority: IsIdentical<Result["priority"], { low: 1; mid: 2; high: 3 }> = true;
+
+    expect(priority).to.equal(true);
+  });
+
+  test("should type lookup tables by variant", () => {
+    type Priority = LabeledVariants<{ low: Low; high: High }>["priority"];
+    const labels: Record<Priority["low" | "high"], string> = {
+      1: "Low",
+      3: "High",
+    };
+
+    expect(labels[3]).to.equal("High");
+  });
+});
@@ -0,0 +1,70 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type { CommonStrictProps, CommonUpcastOf, CommonUpcastProps, ReduceVariants } from "../src/index.ts";
+import type { PairAdjacent } from "../src/internal.ts";
+
+interface Variant<I extends number> { id: string; type: `event${I}`; seq: I; readonly source: "bench"; note?: string; }
+
+type Variants<N extends number, Acc extends unknown[] = []> =
+  Acc["length"] extends N ? Acc : Variants<N, [...Acc, Variant<Acc["length"]>]>;
+
+describe("PairAdjacent", () => {
+  test("should carry an odd type over", () => {
+    type Result = PairAdjacent<[{ a: 1 }, { a: 1 }, { b: 2 }], "strict", {}, 5>;
+    const result: Result = [{ a: 1 }, { b: 2 }];
+
+    expect(result).to.have.length(2);
+  });
+});
+
+describe("ReduceVariants", () => {
+  test("should match the pair type for two types", () => {
+    type Result = ReduceVariants<[{ a: "x"; b: 1 }, { a: "y"; c: 2 }], "upcast">;
+    const result: Result = { a: "z" };
+
+    expect(result.a).to.equal("z");
+  });
+
+  test("should reduce an odd number of types", () => {
+    type Result = ReduceVariants<[{ a: 1; b: 1 }, { a: 1; b: 1 }, { a: 1; b: 2 }], "strict">;
+    const result: Result = { a: 1 };
+    // @ts-expect-error b excluded: 1 !== 2
+    const wrong: Result = { a: 1, b: 1 };
+
+    expect(result.a).to.equal(1);
+    expect(wrong.a).to.equal(1);
+  });
+
+  test("should use the Empty type for an empty tuple", () => {
+    type Result = ReduceVariants<[], "strict", null>;
+    const result: Result = null;
+
+    expect(result).to.equal(null);
+  });
+
+  test("should handle hundreds of types", () => {
+    type Result = CommonUpcastProps<Variants<300>>;
+    const result: Result = { id: "a", type: "other", seq: 1000, source: "bench" };
+    // @ts-expect-error source is readonly
+    result.source = "bench";
+
+    expect(result.seq).to.equal(1000);
+  });
+
+  test("should handle hundreds of types in strict mode", () => {
+    type Result = CommonStrictProps<Variants<300>>;
+    const result: Result = { id: "a", source: "bench" };
+    // @ts-expect-error type excluded: literals differ
+    const typed: Result = { id: "a", source: "bench", type: "event0" };
+
+    expect(result.id).to.equal("a");
+    expect(typed.id).to.equal("a");
+  });
+
+  test("should handle unions of hundreds of types", () => {
+    type Result = CommonUpcastOf<Variants<200>[number]>;
+    const result: Result = { id: "a", type: "other", seq: 1000, source: "bench", note: "n" };
+
+    expect(result.note).to.equal("n");
+  });
+});
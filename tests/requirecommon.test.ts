@@ -0,0 +1,100 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonPropsError, CommonStrictProps, CommonUpcastProps, IsIdentical, NonEmptyCommon, RequireCommon,
+} from "../src/index.ts";
+import type { ConflictIndex, Join, LostKeyMessage } from "../src/internal.ts";
+
+interface Cat { id: string; name: string; type: "cat"; }
+interface Dog { id: string; type: "dog"; }
+
+describe("Join", () => {
+  test("should join the parts with the separator", () => {
+    const result: IsIdentical<[Join<[0, 2]>, Join<["a", "b"], "; ">, Join<[]>], ["0, 2", "a; b", ""]> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("ConflictIndex", () => {
+  test("should find the first value that does not unify", () => {
+    const strict: IsIdentical<ConflictIndex<["cat", "cat", "dog"], "strict">, 2> = true;
+    const upcast: IsIdentical<ConflictIndex<["cat", "dog", 1], "upcast">, 2> = true;
+    const none: IsIdentical<ConflictIndex<["cat", "dog"], "upcast">, never> = true;
+
+    expect([strict, upcast, none]).to.deep.equal([true, true, true]);
+  });
+});
+
+describe("LostKeyMessage", () => {
+  test("should list every variant missing the key", () => {
+    type Result = LostKeyMessage<[Cat, Dog, Dog], "name", "strict">;
+    const result: IsIdentical<Result, "Key \"name\" is missing from variants 1, 2"> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("RequireCommon", () => {
+  test("should be the common result when the keys survive", () => {
+    const strict: IsIdentical<RequireCommon<[Cat, Dog], "id">, CommonStrictProps<[Cat, Dog]>> = true;
+    const upcast: IsIdentical<RequireCommon<[Cat, Dog], "id" | "type", "upcast">, CommonUpcastProps<[Cat, Dog]>> = true;
+
+    expect([strict, upcast]).to.deep.equal([true, true]);
+  });
+
+  test("should name a missing key and the variant without it", () => {
+    type Result = RequireCommon<[Cat, Dog], "id" | "name">;
+    const result: IsIdentical<Result, CommonPropsError<"Key \"name\" is missing from variant 1">> = true;
+    // @ts-expect-error the error type accepts no ordinary value
+    const value: Result = { id: "1" };
+
+    expect(result).to.equal(true);
+    expect(value).to.deep.equal({ id: "1" });
+  });
+
+  test("should name a conflicting key and the variant that conflicts", () => {
+    type Result = RequireCommon<[Cat, Cat, Dog], "type">;
+    const result: IsIdentical<Result, CommonPropsError<"Key \"type\" cannot be unified in strict mode at variant 2">> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should accept a union of variants", () => {
+    type Result = RequireCommon<(Cat | Dog)[], "name">;
+    const result: IsIdentical<Result, CommonPropsError<"Key \"name\" is missing from variant 1">> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should report keys without any variant", () => {
+    const result: IsIdentical<RequireCommon<[], "id">, CommonPropsError<"Key \"id\" is not in any variant">> = true;
+
+    expect(result).to.equal(true);
+  });
+});
+
+describe("NonEmptyCommon", () => {
+  test("should be the common result when it has keys", () => {
+    type Result = NonEmptyCommon<[Cat, Dog], { mode: "upcast" }>;
+    const result: IsIdentical<Result, CommonUpcastProps<[Cat, Dog]>> = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should be an error instead of an empty object", () => {
+    type Result = NonEmptyCommon<[{ a: 1 }, { b: 1 }]>;
+    const result: IsIdentical<Result, CommonPropsError<"No common properties in strict mode">> = true;
+    // @ts-expect-error an empty result would accept this
+    const value: Result = {};
+
+    expect(result).to.equal(true);
+    expect(value).to.deep.equal({});
+  });
+
+  test("should keep an explicit empty type", () => {
+    const result: IsIdentical<NonEmptyCommon<[], { empty: never }>, never> = true;
+
+    expect(result).to.equal(true);
+  });
+});
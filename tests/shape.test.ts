@@ -0,0 +1,128 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import { inferCommonShape, renderDeclaration, type Shape } from "../src/index.ts";
+
+describe("inferCommonShape", () => {
+  test("should keep only equal values in strict mode", () => {
+    const shape = inferCommonShape([
+      { id: 1, kind: "cat", legs: 4 },
+      { id: 2, kind: "dog", legs: 4 },
+    ], "strict");
+
+    expect(shape).to.deep.equal({ kind: "object", properties: { legs: { kind: "literal", value: 4 } } });
+  });
+
+  test("should upcast literals to their primitive in upcast mode", () => {
+    const shape = inferCommonShape([
+      { id: 1, kind: "cat", lives: 9 },
+      { id: 2, kind: "dog", good: true },
+    ], "upcast");
+
+    expect(shape).to.deep.equal({
+      kind: "object",
+      properties: {
+        id: { kind: "primitive", type: "number" },
+        kind: { kind: "primitive", type: "string" },
+      },
+    });
+  });
+
+  test("should exclude values that cannot be unified", () => {
+    const shape = inferCommonShape([
+      { id: 1, note: null, tags: ["a"] },
+      { id: "2", note: "x", tags: [1] },
+    ], "upcast");
+
+    expect(shape.properties).to.deep.equal({});
+  });
+
+  test("should unify arrays element-wise or by element type", () => {
+    const shape = inferCommonShape([
+      { pair: ["a", 1], list: ["a", "b"], empty: [] },
+      { pair: ["b", 2], list: ["c"], empty: [true] },
+    ], "upcast");
+
+    expect(renderDeclaration(shape, "Arrays")).to.equal([
+      "interface Arrays {",
+      "    pair: [string, number];",
+      "    list: string[];",
+      "    empty: true[];",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should keep the wider of two nested objects", () => {
+    const shape = inferCommonShape([
+      { meta: { version: 1 } },
+      { meta: { version: 1, draft: true } },
+    ], "upcast");
+
+    expect(renderDeclaration(shape, "Doc")).to.equal([
+      "interface Doc {",
+      "    meta: {",
+      "        version: 1;",
+      "    };",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should merge true and false into boolean", () => {
+    const shape = inferCommonShape([{ on: true }, { on: false }, { on: true }], "upcast");
+
+    expect(shape.properties["on"]).to.deep.equal({ kind: "primitive", type: "boolean" });
+  });
+
+  test("should default to strict mode", () => {
+    const shape = inferCommonShape([{ a: "x" }, { a: "y" }]);
+
+    expect(shape.properties).to.deep.equal({});
+  });
+
+  test("should return an empty object shape without samples", () => {
+    expect(inferCommonShape([])).to.deep.equal({ kind: "object", properties: {} });
+  });
+
+  test("should keep a __proto__ key as a property", () => {
+    const sample: unknown = JSON.parse("{ \"__proto__\": { \"a\": 1 } }");
+    const shape = inferCommonShape([sample, sample]);
+
+    expect(Object.keys(shape.properties)).to.deep.equal(["__proto__"]);
+    expect(Object.getPrototypeOf(shape.properties)).to.equal(Object.prototype);
+    expect(renderDeclaration(shape, "Sample")).to.equal([
+      "interface Sample {",
+      "    __proto__: {",
+      "        a: 1;",
+      "    };",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should reject samples that are not objects or JSON values", () => {
+    expect(() => inferCommonShape([[1]])).to.throw(TypeError, "Expected an object sample, got array");
+    expect(() => inferCommonShape([{ at: new Date(0) }])).to.throw(TypeError, "Expected a JSON value, got object");
+  });
+});
+
+describe("renderDeclaration", () => {
+  test("should quote keys that are not identifiers", () => {
+    const shape = inferCommonShape([{ "content-type": "a", $ok: 1 }, { "content-type": "b", $ok: 2 }], "upcast");
+
+    expect(renderDeclaration(shape, "Headers")).to.equal([
+      "interface Headers {",
+      "    \"content-type\": string;",
+      "    $ok: number;",
+      "}",
+    ].join("\n"));
+  });
+
+  test("should print an empty interface", () => {
+    expect(renderDeclaration(inferCommonShape([]), "Empty")).to.equal("interface Empty {}");
+  });
+
+  test("should print other shapes as a type alias", () => {
+    const union: Shape = { kind: "union", members: [{ kind: "primitive", type: "string" }, { kind: "literal", value: null }] };
+
+    expect(renderDeclaration({ kind: "array", element: union }, "List")).to.equal("type List = (string | null)[];");
+    expect(renderDeclaration({ kind: "union", members: [] }, "Nothing")).to.equal("type Nothing = never;");
+  });
+});
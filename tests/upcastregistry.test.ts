@@ -0,0 +1,128 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonUpcastPairs,
+  CommonUpcastProps,
+  GetUpcastable,
+  IsUpcastable,
+  RegisteredUpcast,
+  UpcastRule,
+} from "../src/index.ts";
+
+// The registry is shared by the whole tsc program, so these rules are active
+// while every other test file is type-checked. They only match the brands and
+// enums declared in this file, keyed by symbols no other file can name, so no
+// other test's results depend on this file being part of the program.
+declare const unit: unique symbol;
+declare const brand: unique symbol;
+declare const entity: unique symbol;
+
+type Length = number & { [unit]: "length"; };
+type Meters = Length & { [brand]: "meters"; };
+type Feet = Length & { [brand]: "feet"; };
+
+type EntityId = string & { [entity]: true; };
+type UserId = EntityId & { [brand]: "UserId"; };
+type OrgId = EntityId & { [brand]: "OrgId"; };
+
+enum Palette { Red = "red", Blue = "blue" }
+enum Tone { Dark = "dark", Light = "light" }
+
+declare module "../src/index.ts" {
+  interface UpcastRegistry {
+    length: UpcastRule<Meters | Feet, Length>;
+    entity: UpcastRule<UserId | OrgId, EntityId>;
+    palette: UpcastRule<Palette, Palette>;
+    tone: UpcastRule<Tone, Tone>;
+  }
+}
+
+const meters = (value: number): Meters => value as Meters;
+const feet = (value: number): Feet => value as Feet;
+const userId = (value: string): UserId => value as UserId;
+
+describe("UpcastRegistry", () => {
+  test("should look up registered rules", () => {
+    type Result = RegisteredUpcast<Meters>;
+    const length: Result = meters(1);
+    // @ts-expect-error plain numbers are not a Length
+    const plain: Result = 1;
+
+    expect(length).to.equal(1);
+    expect(plain).to.equal(1);
+  });
+
+  test("should make registered types upcastable", () => {
+    type Result = IsUpcastable<UserId>;
+    const result: Result = true;
+
+    expect(result).to.equal(true);
+  });
+
+  test("should prefer registered targets over primitives", () => {
+    type Result = GetUpcastable<Meters | Feet>;
+    const length: Result = feet(2);
+    // @ts-expect-error plain numbers are not a Length
+    const plain: Result = 2;
+
+    expect(length).to.equal(2);
+    expect(plain).to.equal(2);
+  });
+
+  test("should unify registered types to their shared base", () => {
+    interface Road { id: UserId; size: Meters; }
+    interface Trail { id: OrgId; size: Feet; }
+
+    type Result = CommonUpcastPairs<Road, Trail>;
+    const result: Result = { id: userId("u1"), size: meters(5) };
+    // @ts-expect-error size is a Length, not any number
+    const wrong: Result = { id: userId("u1"), size: 5 };
+
+    expect(result.size).to.equal(5);
+    expect(wrong.size).to.equal(5);
+  });
+
+  test("should widen members of a registered enum to the enum type", () => {
+    interface TypeA { color: Palette.Red; }
+    interface TypeB { color: Palette.Blue; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { color: Palette.Blue };
+    // @ts-expect-error color is a Palette, not any string
+    const wrong: Result = { color: "green" };
+
+    expect(result.color).to.equal("blue");
+    expect(wrong.color).to.equal("green");
+  });
+
+  test("should fall back to primitives when registered targets are unrelated", () => {
+    interface TypeA { color: Palette.Red; }
+    interface TypeB { color: Tone.Dark; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { color: "green" }; // Palette | Tone → string
+
+    expect(result.color).to.equal("green");
+  });
+
+  test("should widen a registered target against a plain literal", () => {
+    interface TypeA { id: UserId; }
+    interface TypeB { id: "anonymous"; }
+
+    type Result = CommonUpcastPairs<TypeA, TypeB>;
+    const result: Result = { id: "anyone" }; // EntityId | 'anonymous' → string
+
+    expect(result.id).to.equal("anyone");
+  });
+
+  test("should apply across tuples", () => {
+    interface Road { size: Meters; }
+    interface Trail { size: Feet; }
+    interface Track { size: Meters; }
+
+    type Result = CommonUpcastProps<[Road, Trail, Track]>;
+    const result: Result = { size: feet(3) };
+
+    expect(result.size).to.equal(3);
+  });
+});
@@ -0,0 +1,192 @@
+import { test, describe } from "vitest";
+import { expect } from "chai";
+import type {
+  CommonStrictPairs,
+  CommonStrictProps,
+  CommonUnionPairs,
+  CommonUpcastPairs,
+  CommonUpcastProps,
+  OptionalKeys,
+  ReadonlyKeys,
+  WithModifiers,
+} from "../src/index.ts";
+
+describe("OptionalKeys", () => {
+  test("should find optional keys", () => {
+    type Result = OptionalKeys<{ a?: 1; b: 2; c?: 3; }>;
+    const a: Result = "a";
+    const c: Result = "c";
+    // @ts-expect-error b is required
+    const b: Result = "b";
+
+    expect([a, b, c]).to.deep.equal(["a", "b", "c"]);
+  });
+
+  test("should ignore index signatures", () => {
+    type Result = OptionalKeys<Record<string, number>>;
+    // @ts-expect-error index signatures are not optional keys
+    const key: Result = "any";
+
+    expect(key).to.equal("any");
+  });
+});
+
+describe("ReadonlyKeys", () => {
+  test("should find readonly keys", () => {
+    type Result = ReadonlyKeys<{ readonly a: 1; b: 2; readonly c?: 3; }>;
+    const a: Result = "a";
+    const c: Result = "c";
+    // @ts-expect-error b is mutable
+    const b: Result = "b";
+
+    expect([a, b, c]).to.deep.equal(["a", "b", "c"]);
+  });
+});
+
+describe("WithModifiers", () => {
+  test("should combine modifiers from both inputs", () => {
+    type Result = WithModifiers<{ a: string; b: number; }, { readonly a: "x"; b?: 1; }, { a: "y"; b: 2; }>;
+    const result: Result = { a: "test" };
+    // @ts-expect-error a is readonly
+    result.a = "changed";
+    result.b = 1;
+
+    expect(result.a).to.equal("changed");
+    expect(result.b).to.equal(1);
+  });
+});
+
+describe("CommonStrictPairs modifiers", () => {
+  test("should be readonly if readonly in the first type", () => {
+    type Result = CommonStrictPairs<{ readonly id: string; }, { id: string; }>;
+    const result: Result = { id: "1" };
+    // @ts-expect-error id is readonly
+    result.id = "2";
+
+    expect(result.id).to.equal("2");
+  });
+
+  test("should be readonly if readonly in the second type", () => {
+    type Result = CommonStrictPairs<{ id: string; }, { readonly id: string; }>;
+    const result: Result = { id: "1" };
+    // @ts-expect-error id is readonly
+    result.id = "2";
+
+    expect(result.id).to.equal("2");
+  });
+
+  test("should stay mutable if mutable in both types", () => {
+    type Result = CommonStrictPairs<{ id: string; }, { id: string; }>;
+    const result: Result = { id: "1" };
+    result.id = "2";
+
+    expect(result.id).to.equal("2");
+  });
+
+  test("should be optional if optional in either type", () => {
+    type First = CommonStrictPairs<{ id?: string; }, { id: string; }>;
+    type Second = CommonStrictPairs<{ id: string; }, { id?: string; }>;
+    type Both = CommonStrictPairs<{ id?: string; }, { id?: string; }>;
+    const first: First = {};
+    const second: Second = {};
+    const both: Both = {};
+
+    expect([first, second, both]).to.deep.equal([{}, {}, {}]);
+  });
+
+  test("should stay required if required in both types", () => {
+    type Result = CommonStrictPairs<{ id: string; }, { id: string; }>;
+    // @ts-expect-error id is required
+    const result: Result = {};
+
+    expect(result).to.deep.equal({});
+  });
+
+  test("should match optional and required keys by declared type", () => {
+    type Result = CommonStrictPairs<{ id?: "a"; }, { id: "a"; }>;
+    const result: Result = { id: "a" };
+
+    expect(result.id).to.equal("a");
+  });
+
+  test("should not accept explicit undefined for optional keys", () => {
+    type Result = CommonStrictPairs<{ id?: string; }, { id: string; }>;
+    // @ts-expect-error exactOptionalPropertyTypes: undefined is not a string
+    const result: Result = { id: undefined };
+
+    void expect(result.id).to.be.undefined;
+  });
+
+  test("should keep explicit undefined when declared", () => {
+    type Result = CommonStrictPairs<{ id?: string | undefined; }, { id: string | undefined; }>;
+    const result: Result = { id: undefined };
+
+    void expect(result.id).to.be.undefined;
+  });
+
+  test("should combine readonly and optional", () => {
+    type Result = CommonStrictPairs<{ readonly id: string; }, { id?: string; }>;
+    const result: Result = {};
+    // @ts-expect-error id is readonly
+    result.id = "1";
+
+    expect(result.id).to.equal("1");
+  });
+});
+
+describe("CommonUpcastPairs modifiers", () => {
+  test("should preserve modifiers while upcasting", () => {
+    type Result = CommonUpcastPairs<{ readonly type: "cat"; name?: string; }, { type: "dog"; name: "rex"; }>;
+    const result: Result = { type: "any" };
+    // @ts-expect-error type is readonly
+    result.type = "changed";
+
+    expect(result.type).to.equal("changed");
+  });
+
+  test("should widen optional undefined only when declared", () => {
+    type Result = CommonUpcastPairs<{ id?: string; }, { id: string | undefined; }>;
+    const result: Result = { id: undefined };
+
+    void expect(result.id).to.be.undefined;
+  });
+});
+
+describe("CommonUnionPairs modifiers", () => {
+  test("should preserve modifiers in union mode", () => {
+    type Result = CommonUnionPairs<{ readonly type: "cat"; }, { type?: "dog"; }>;
+    const result: Result = {};
+    // @ts-expect-error type is readonly
+    result.type = "cat";
+
+    expect(result.type).to.equal("cat");
+  });
+});
+
+describe("Props modifiers", () => {
+  test("should carry modifiers through CommonStrictProps", () => {
+    interface Cat { readonly id: string; name: string; }
+    interface Dog { id: string; name?: string; }
+    interface Bird { id: string; name: string; }
+
+    type Result = CommonStrictProps<[Cat, Dog, Bird]>;
+    const result: Result = { id: "1" };
+    // @ts-expect-error id is readonly
+    result.id = "2";
+
+    expect(result.id).to.equal("2");
+  });
+
+  test("should carry modifiers through CommonUpcastProps", () => {
+    interface Cat { type: "cat"; legs?: 4; }
+    interface Dog { type: "dog"; legs: 4; }
+    interface Bird { readonly type: "bird"; legs: 2; }
+
+    type Result = CommonUpcastProps<[Cat, Dog, Bird]>;
+    const result: Result = { type: "any" };
+    // @ts-expect-error type is readonly
+    result.type = "changed";
+
+    expect(result.type).to.equal("changed");
+  });
+});
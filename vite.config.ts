@@ -5,11 +5,18 @@ import dts from "vite-plugin-dts";
 export default defineConfig({
   build: {
     lib: {
-      entry: resolve(process.cwd(), "src/index.ts"),
+      entry: {
+        index: resolve(process.cwd(), "src/index.ts"),
+        cli: resolve(process.cwd(), "src/cli.ts"),
+      },
       name: "CommonProps",
-      fileName: "index",
+      fileName: (_format, entryName) => `${entryName}.js`,
       formats: ["es"]
     },
+    rollupOptions: {
+      // The command uses the compiler API of the installed TypeScript.
+      external: ["typescript", /^node:/],
+    },
     outDir: "dist",
     sourcemap: true,
     emptyOutDir: true,